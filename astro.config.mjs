@@ -6,6 +6,7 @@ import mdx from '@astrojs/mdx';
 import react from '@astrojs/react';
 import partytown from '@astrojs/partytown';
 import { buildRedirectConfig } from './src/utils/redirects';
+import { relationshipGraphWatcher } from './src/utils/query/integration';
 import { manualChunks, assetFileNames } from './vite.chunks.js';
 
 const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
@@ -48,6 +49,7 @@ export default defineConfig({
         debug: process.env.NODE_ENV === 'development',
       },
     }),
+    relationshipGraphWatcher(),
   ],
   
   build: {
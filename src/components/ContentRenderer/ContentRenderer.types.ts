@@ -6,7 +6,7 @@
  * Provides a consistent interface for all content renderer variants.
  */
 
-import type { Query } from '@/utils/query';
+import type { Query, QueryDefinition, RecommendationOptions, RecommendationReason } from '@/utils/query';
 import type { CollectionKey } from 'astro:content';
 import type { PreparedItem } from '@/utils/collections';
 
@@ -23,12 +23,30 @@ export interface BaseVariantProps {
   id?: string;                 // Manual ID override (auto-generated if not provided)
 }
 
+/**
+ * Entry to show related content for (see getRecommendations)
+ */
+export interface RelatedSource extends RecommendationOptions {
+  collection: CollectionKey;
+  id: string;
+}
+
+/**
+ * Prepared item with its recommendation score (related mode)
+ */
+export type RelatedItem = PreparedItem & {
+  score: number;
+  reasons: RecommendationReason[];
+};
+
 /**
  * Props for the main Section component
- * Uses Query object instead of collection string
+ * Uses Query object (or a declarative query definition) instead of collection string
  */
 export interface SectionProps extends Partial<BaseVariantProps> {
-  query?: Query<CollectionKey>;  // Query object for fetching items
+  query?: Query<CollectionKey> | QueryDefinition;  // Query object or frontmatter definition
+  related?: RelatedSource;        // Recommend entries related to this one instead of querying
   variant?: string;               // Variant component to render with
+  explain?: boolean;              // Dev only: log Query.explain() (automatic when empty)
   [key: string]: any;             // Allow additional variant-specific props
 }
\ No newline at end of file
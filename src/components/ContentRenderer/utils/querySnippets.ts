@@ -51,7 +51,7 @@ import type { CollectionKey } from 'astro:content';
 // TODO: Items by author
 // export const byAuthor = (collection: CollectionKey, authorId: string, limit?: number) =>
 //   query(collection)
-//     .where(whereEquals('author', authorId))
+//     .where(whereEquals('author.id', authorId))
 //     .orderBy(sortByDate('publishDate', 'desc'))
 //     .limit(limit || 10);
 
@@ -137,7 +137,7 @@ import type { CollectionKey } from 'astro:content';
 // TODO: Posts by author with pagination
 // export const postsByAuthor = (authorId: string, page = 1, pageSize = 10) =>
 //   query('blog')
-//     .where(whereEquals('author', authorId))
+//     .where(whereEquals('author.id', authorId))
 //     .orderBy(sortByDate('publishDate', 'desc'))
 //     .limit(pageSize)
 //     .offset((page - 1) * pageSize);
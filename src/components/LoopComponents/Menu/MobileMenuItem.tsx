@@ -16,6 +16,7 @@ interface MobileMenuItemProps {
   openInNewTab?: boolean;
   onNavigate: () => void;
   level?: number;
+  isExpanded?: boolean;  // Start open (set by buildMenuTree on the active path)
 }
 
 export default function MobileMenuItem({ 
@@ -25,8 +26,9 @@ export default function MobileMenuItem({
   openInNewTab = false,
   onNavigate,
   level = 0,
+  isExpanded: startExpanded = false,
 }: MobileMenuItemProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(startExpanded);
   const hasChildren = children.length > 0;
   const indent = level * 16; // 16px per level
   
@@ -0,0 +1,101 @@
+// src/components/Search/SearchButton.tsx
+import { useState, useEffect, useTransition, lazy, Suspense, memo } from 'react';
+
+const SearchDialog = lazy(() => import('./SearchDialog'));
+
+interface SearchButtonProps {
+  indexUrl?: string;
+}
+
+/**
+ * Check if the user is typing somewhere the "/" shortcut would be text
+ */
+function isEditable(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el && (
+    el.isContentEditable ||
+    el.tagName === 'INPUT' ||
+    el.tagName === 'TEXTAREA' ||
+    el.tagName === 'SELECT'
+  );
+}
+
+function SearchButton({ indexUrl }: SearchButtonProps) {
+  const [showDialog, setShowDialog] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [isMac, setIsMac] = useState(false);
+
+  const handleOpenDialog = () => {
+    startTransition(() => {
+      setShowDialog(true);
+    });
+  };
+
+  const handleCloseDialog = () => {
+    startTransition(() => {
+      setShowDialog(false);
+    });
+  };
+
+  // Command palette shortcut: Cmd/Ctrl+K, or "/" outside text fields
+  useEffect(() => {
+    setIsMac(/Mac|iPhone|iPad/.test(navigator.platform));
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      const isPalette = e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey);
+      const isSlash = e.key === '/' && !isEditable(e.target);
+
+      if (isPalette || isSlash) {
+        e.preventDefault();
+        handleOpenDialog();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  return (
+    <>
+      <button
+        onClick={handleOpenDialog}
+        className="inline-flex items-center gap-2 rounded-md border border-gray-200 px-3 py-1.5 text-sm text-gray-500 hover:border-gray-300 hover:text-gray-700 transition-colors"
+        type="button"
+        aria-label="Search site"
+        aria-keyshortcuts="Meta+K Control+K"
+        disabled={isPending}
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z"
+          />
+        </svg>
+        <span className="hidden sm:inline">Search</span>
+        <kbd className="hidden sm:inline text-xs text-gray-400">{isMac ? '⌘K' : 'Ctrl K'}</kbd>
+      </button>
+
+      {showDialog && (
+        <Suspense fallback={null}>
+          <SearchDialog
+            isOpen={showDialog}
+            onClose={handleCloseDialog}
+            indexUrl={indexUrl}
+          />
+        </Suspense>
+      )}
+    </>
+  );
+}
+
+export default memo(SearchButton);
@@ -0,0 +1,252 @@
+// src/components/Search/SearchDialog.tsx
+import { useState, useEffect, useMemo, useRef, useId, memo, type KeyboardEvent } from 'react';
+import Modal from '@/components/Modal';
+import { searchIndex } from '@/utils/search/bm25';
+import type { SearchHit, SearchIndex } from '@/utils/search/types';
+import { getSnippet, splitHighlights } from './highlight';
+
+interface SearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  indexUrl?: string;
+  limit?: number;
+}
+
+interface ResultGroup {
+  collection: string;
+  title: string;
+  hits: SearchHit[];
+}
+
+// Index is fetched once per page load and shared between openings
+let indexPromise: Promise<SearchIndex> | null = null;
+
+function loadIndex(url: string): Promise<SearchIndex> {
+  if (!indexPromise) {
+    indexPromise = fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Failed to load search index: ${res.status}`);
+        return res.json() as Promise<SearchIndex>;
+      })
+      .catch(error => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+/**
+ * Group hits by collection, ordered by each group's best hit
+ */
+function groupHits(hits: SearchHit[], titles: Record<string, string>): ResultGroup[] {
+  const groups = new Map<string, ResultGroup>();
+
+  for (const hit of hits) {
+    const { collection } = hit.doc;
+    if (!groups.has(collection)) {
+      groups.set(collection, { collection, title: titles[collection] ?? collection, hits: [] });
+    }
+    groups.get(collection)!.hits.push(hit);
+  }
+
+  return Array.from(groups.values());
+}
+
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, i) =>
+        part.match
+          ? <mark key={i} className="bg-yellow-200 text-inherit rounded-sm">{part.text}</mark>
+          : <span key={i}>{part.text}</span>
+      )}
+    </>
+  );
+}
+
+function SearchDialog({
+  isOpen,
+  onClose,
+  indexUrl = '/search-index.json',
+  limit = 20,
+}: SearchDialogProps) {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const listId = useId();
+
+  // Load index on first open
+  useEffect(() => {
+    if (!isOpen || index) return;
+    loadIndex(indexUrl)
+      .then(setIndex)
+      .catch(err => setError(err.message));
+  }, [isOpen, index, indexUrl]);
+
+  // Focus the input after Modal has focused its container
+  useEffect(() => {
+    if (!isOpen) return;
+    const frame = requestAnimationFrame(() => {
+      requestAnimationFrame(() => inputRef.current?.focus());
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen]);
+
+  const hits = useMemo(
+    () => (index && text.trim() ? searchIndex(index, text, { limit }) : []),
+    [index, text, limit]
+  );
+
+  const groups = useMemo(
+    () => groupHits(hits, index?.collections ?? {}),
+    [hits, index]
+  );
+
+  // Flattened in display order, for keyboard navigation
+  const ordered = useMemo(() => groups.flatMap(group => group.hits), [groups]);
+
+  useEffect(() => {
+    setActive(0);
+  }, [text]);
+
+  // Keep the active option in view
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>): void => {
+    if (ordered.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActive(i => (i + 1) % ordered.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActive(i => (i - 1 + ordered.length) % ordered.length);
+        break;
+      case 'Home':
+        e.preventDefault();
+        setActive(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        setActive(ordered.length - 1);
+        break;
+      case 'Enter': {
+        e.preventDefault();
+        const hit = ordered[active];
+        if (hit) window.location.href = hit.doc.url;
+        break;
+      }
+    }
+  };
+
+  const optionId = (i: number) => `${listId}-option-${i}`;
+  let position = -1;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      closeButton={false}
+      position="top-left"
+      className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-auto mt-[10vh] overflow-hidden"
+      overlayClass="bg-black/50"
+      ariaLabel="Search site"
+      ssr={false}
+    >
+      <div className="flex items-center gap-3 border-b border-gray-200 px-4">
+        <svg className="w-5 h-5 text-gray-400 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+        </svg>
+        <input
+          ref={inputRef}
+          type="search"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search…"
+          className="w-full py-4 text-lg outline-none bg-transparent"
+          role="combobox"
+          aria-expanded={ordered.length > 0}
+          aria-controls={listId}
+          aria-activedescendant={ordered.length > 0 ? optionId(active) : undefined}
+          aria-autocomplete="list"
+        />
+        <kbd className="hidden sm:inline text-xs text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+      </div>
+
+      <div className="max-h-[60vh] overflow-y-auto">
+        {error && <p className="p-6 text-sm text-red-600">{error}</p>}
+
+        {!error && !index && isOpen && (
+          <p className="p-6 text-sm text-gray-500">Loading search index…</p>
+        )}
+
+        {index && text.trim() && ordered.length === 0 && (
+          <p className="p-6 text-sm text-gray-500">No results for “{text}”</p>
+        )}
+
+        <ul ref={listRef} id={listId} role="listbox" aria-label="Search results">
+          {groups.map(group => (
+            <li key={group.collection} role="presentation">
+              <div className="px-4 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {group.title}
+              </div>
+              <ul role="group" aria-label={group.title}>
+                {group.hits.map(hit => {
+                  position++;
+                  const i = position;
+                  const isActive = i === active;
+                  const snippet = getSnippet(hit.doc.excerpt || hit.doc.description || '', hit.terms);
+
+                  return (
+                    <li
+                      key={`${hit.doc.collection}:${hit.doc.id}`}
+                      id={optionId(i)}
+                      data-index={i}
+                      role="option"
+                      aria-selected={isActive}
+                      onMouseMove={() => setActive(i)}
+                    >
+                      <a
+                        href={hit.doc.url}
+                        tabIndex={-1}
+                        className={`block px-4 py-3 ${isActive ? 'bg-blue-50' : ''}`}
+                      >
+                        <div className={`font-medium ${isActive ? 'text-blue-700' : 'text-gray-900'}`}>
+                          <Highlight text={hit.doc.title} terms={hit.terms} />
+                        </div>
+                        {snippet && (
+                          <p className="mt-1 text-sm text-gray-600 line-clamp-2">
+                            <Highlight text={snippet} terms={hit.terms} />
+                          </p>
+                        )}
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex gap-4 border-t border-gray-200 px-4 py-2 text-xs text-gray-400">
+        <span><kbd>↑</kbd> <kbd>↓</kbd> to navigate</span>
+        <span><kbd>↵</kbd> to open</span>
+        <span><kbd>Esc</kbd> to close</span>
+      </div>
+    </Modal>
+  );
+}
+
+export default memo(SearchDialog);
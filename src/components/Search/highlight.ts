@@ -0,0 +1,65 @@
+// src/components/Search/highlight.ts
+/**
+ * Snippet and highlight helpers for search results
+ */
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Build a case-insensitive regex matching any term at a word start
+ */
+function termPattern(terms: string[]): RegExp | null {
+  const escaped = terms
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (escaped.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join('|')})`, 'giu');
+}
+
+/**
+ * Split text into highlighted and plain parts
+ *
+ * @example
+ * splitHighlights('Astro islands', ['island'])
+ * // [{ text: 'Astro ', match: false }, { text: 'island', match: true }, { text: 's', match: false }]
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightPart[] {
+  const pattern = termPattern(terms);
+  if (!pattern || !text) return [{ text, match: false }];
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
+
+/**
+ * Cut a window of text around the first matching term
+ *
+ * @param text - Source text (excerpt or description)
+ * @param terms - Matched terms
+ * @param length - Approximate snippet length
+ */
+export function getSnippet(text: string, terms: string[], length: number = 140): string {
+  if (text.length <= length) return text;
+
+  const pattern = termPattern(terms);
+  const first = pattern ? text.search(pattern) : -1;
+  const start = Math.max(0, (first === -1 ? 0 : first) - Math.floor(length / 3));
+  const end = Math.min(text.length, start + length);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
@@ -18,7 +18,7 @@
  */
 import { file } from "astro/loaders";
 import { defineCollection, z } from "astro:content";
-import { baseSchema, MenuSchema, MenuItemFields, refSchema } from "./schema";
+import { baseSchema, MenuSchema, MenuItemFields, refSchema, defineRelations } from "./schema";
 import { MenuItemsLoader } from "@/utils/loaders/MenuItemsLoader";
 
 // Define your collections with the base schema - all support MDX
@@ -109,4 +109,13 @@ export const collections = {
         category: z.string().optional(),
       }),
   }),
-};
\ No newline at end of file
+};
+
+// Relation fields per collection. Declared collections only get graph
+// references for these fields; `inverse` names the reverse relation on the
+// target (e.g. an author's `posts`), and cardinality is checked at build time.
+export const relations = defineRelations({
+  "blog": {
+    author: { to: "authors", inverse: "posts", cardinality: "many-to-one" },
+  },
+});
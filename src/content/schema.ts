@@ -18,6 +18,44 @@ export function refSchema(targetCollection: CollectionKey | CollectionKey[]) {
   return z.union([singleRef, z.array(singleRef)]).optional();
 }
 
+// ============================================================================
+// RELATION DECLARATIONS
+// ============================================================================
+
+/**
+ * How many entries may sit on each side of a relation
+ * (source side first: many-to-one = many posts, one author each)
+ */
+export type RelationCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+/**
+ * A relation field declared in config.ts
+ */
+export interface RelationDeclaration {
+  to: CollectionKey | readonly CollectionKey[];  // Target collection(s)
+  inverse?: string;                              // Name of the reverse relation on targets
+  cardinality?: RelationCardinality;             // Default: many-to-one, or many-to-many for arrays
+}
+
+/**
+ * Relation fields per collection (collection → field → declaration)
+ */
+export type RelationDeclarations = {
+  readonly [C in CollectionKey]?: { readonly [field: string]: RelationDeclaration };
+};
+
+/**
+ * Declare relations for the query graph, keeping literal names for typing
+ *
+ * @example
+ * export const relations = defineRelations({
+ *   blog: { author: { to: 'authors', inverse: 'posts', cardinality: 'many-to-one' } },
+ * });
+ */
+export function defineRelations<const R extends RelationDeclarations>(relations: R): R {
+  return relations;
+}
+
 // ============================================================================
 // MENU SCHEMA
 // ============================================================================
@@ -37,6 +75,7 @@ export const MenuItemFields = z.object({
   title: z.string().optional(),
   description: z.string().optional(),
   url: z.string().optional(),
+  order: z.number().optional(),
   ...BaseMenuFields,
   menu: refSchema("menus"),
 });
@@ -193,6 +232,25 @@ export const redirectFromSchema = z
 
 export type RedirectFrom = z.infer<typeof redirectFromSchema>;
 
+// ============================================================================
+// TAXONOMY SCHEMA
+// ============================================================================
+
+// Archive pages for the values of a field, declared in _meta.mdx:
+// /{collection}/{path} lists the terms, /{collection}/{path}/{term} their entries
+export const TaxonomySchema = z.object({
+  field: z.string(),                          // e.g. 'tags', 'category'
+  path: z.string()                            // URL segment (default: field)
+    .regex(/^[a-z0-9-]+$/, 'Taxonomy path must be a lowercase URL segment')
+    .refine(path => path !== 'page', 'Taxonomy path "page" is used by pagination')
+    .optional(),
+  title: z.string().optional(),               // e.g. 'Tags' (default: from path)
+  description: z.string().optional(),
+  sort: z.enum(['name', 'count']).default('name'),  // Order of the term index
+});
+
+export type TaxonomyConfig = z.infer<typeof TaxonomySchema>;
+
 // ============================================================================
 // IMAGE SCHEMA
 // ============================================================================
@@ -264,10 +322,68 @@ export const seoSchema = ({ image }: { image: Function }) =>
 
 export type SEOData = z.infer<ReturnType<typeof seoSchema>>;
 
+// ============================================================================
+// QUERY SCHEMA
+// ============================================================================
+
+export const QueryOperator = z.enum([
+  'eq',               // whereEquals
+  'neq',              // not(whereEquals)
+  'in',               // whereIn
+  'notIn',            // not(whereIn)
+  'exists',           // whereExists
+  'contains',         // whereContains
+  'startsWith',       // whereStartsWith
+  'gt',               // whereGreaterThan
+  'lt',               // whereLessThan
+  'between',          // whereBetween ([min, max])
+  'after',            // whereAfter
+  'before',           // whereBefore
+  'arrayContains',    // whereArrayContains
+  'arrayContainsAny', // whereArrayContainsAny
+]);
+
+export const QueryConditionSchema = z.object({
+  field: z.string(),
+  op: QueryOperator.default('eq'),
+  value: z.any().optional(),
+  caseSensitive: z.boolean().optional(),
+});
+
+export const QuerySortSchema = z.union([
+  z.string(), // Field name, ascending
+  z.object({
+    field: z.string(),
+    direction: z.enum(['asc', 'desc']).default('asc'),
+    nullsFirst: z.boolean().optional(),
+  }),
+]);
+
+export const QueryDefinitionSchema = z.object({
+  from: z.union([z.string(), z.array(z.string())]).optional(),
+  where: z.array(QueryConditionSchema).optional(),
+  orderBy: z.union([QuerySortSchema, z.array(QuerySortSchema)]).optional(),
+  limit: z.number().int().positive().optional(),
+  offset: z.number().int().nonnegative().optional(),
+  include: z.array(z.string()).optional(), // Relations to populate (see Query.include)
+});
+
+export type QueryOperatorType = z.infer<typeof QueryOperator>;
+export type QueryCondition = z.infer<typeof QueryConditionSchema>;
+export type QuerySort = z.infer<typeof QuerySortSchema>;
+export type QueryDefinition = z.infer<typeof QueryDefinitionSchema>;
+
 // ============================================================================
 // BASE SCHEMA
 // ============================================================================
 
+// Hierarchy parent: "id" (same collection), "collection/id" (another
+// collection) or a { collection, id } reference. Resolved by the query graph.
+export const ParentFieldSchema = z.union([
+  z.string(),
+  z.object({ collection: z.string(), id: z.string() }),
+]);
+
 export const baseSchema = ({ image }: { image: Function }) =>
   z.object({
     title: z.string(),
@@ -276,6 +392,7 @@ export const baseSchema = ({ image }: { image: Function }) =>
     bannerImage: imageInputSchema({ image }).optional(),
     hasPage: z.boolean().optional(),
     rootPath: z.boolean().optional(),
+    nestedPath: z.boolean().optional(),
     icon: iconSchema({ image }).optional(),
     seo: seoSchema({ image }),
     addToMenu: z.array(AddToMenuFields).optional(),
@@ -288,8 +405,19 @@ export const baseSchema = ({ image }: { image: Function }) =>
         if (val instanceof Date) return val;
         return new Date(val);
       }),
+    draft: z.boolean().default(false),
+    expiresAt: z
+      .union([z.date(), z.string()])
+      .optional()
+      .transform((val) => {
+        if (!val) return undefined;
+        if (val instanceof Date) return val;
+        return new Date(val);
+      }),
     order: z.number().default(0),
+    parent: ParentFieldSchema.optional(),
     itemLayout: z.string().optional(),
+    query: QueryDefinitionSchema.optional(),
   });
 
 export type BaseData = z.infer<ReturnType<typeof baseSchema>>;
@@ -309,8 +437,15 @@ export const metaSchema = ({ image }: { image: Function }) =>
     redirectFrom: redirectFromSchema,
     itemsHasPage: z.boolean().default(true),
     itemsRootPath: z.boolean().default(false),
+    itemsNestedPath: z.boolean().default(false),
+    // Item URL pattern, e.g. "/blog/:year/:month/:slug" (see src/utils/permalink.ts)
+    permalink: z.string().startsWith('/').optional(),
     itemsAddToMenu: z.array(ItemsAddToMenuFields).optional(),
     itemsLayout: z.string().default('CollectionLayout'),
+    query: QueryDefinitionSchema.optional(),
+    // Split the index page into /collection, /collection/page/2, ...
+    itemsPerPage: z.number().int().positive().optional(),
+    taxonomies: z.array(TaxonomySchema).optional(),
   });
 
 export type MetaData = z.infer<ReturnType<typeof metaSchema>>;
\ No newline at end of file
@@ -6,12 +6,14 @@
  * Ensures consistent props across different layout variants.
  */
 
+import type { CollectionKey } from 'astro:content';
+
 /**
  * Props passed to collection layout components
  */
 export interface CollectionLayoutProps {
   entry?: any;                // The collection entry being rendered
-  collection?: string;        // Name of the collection
+  collection?: CollectionKey; // Name of the collection
   collectionMeta?: any;       // Metadata from _meta.mdx
   Content?: any;             // MDX content component (if applicable)
   isIndexPage?: boolean;      // True if this is the collection index
@@ -0,0 +1,12 @@
+// src/pages/search-index.json.ts
+import type { APIRoute } from 'astro';
+import { buildSearchIndex } from '@/utils/search';
+
+export const GET: APIRoute = async () => {
+  // Inverted index of all collections, generated at build time
+  const index = await buildSearchIndex();
+
+  return new Response(JSON.stringify(index), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
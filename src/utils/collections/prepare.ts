@@ -5,7 +5,8 @@
  * This module handles transforming raw collection entries into "prepared" items
  * that are ready for use in pages and components. Preparation includes:
  * - Adding slug and URL fields
- * - Determining correct URL path (collection or root level)
+ * - Determining correct URL path (collection, root level, nested under a parent
+ *   or the collection's permalink pattern)
  * 
  * References are NOT resolved here - components query for them as needed.
  */
@@ -13,7 +14,12 @@
 import type { CollectionKey, CollectionEntry } from 'astro:content';
 import type { MetaData, BaseData } from "@/content/schema";
 import { getItemKey } from './core';
-import { shouldItemHavePage, shouldItemUseRootPath } from '@/utils/pages';
+import { getCollectionMeta } from './meta';
+import { shouldItemHavePage, shouldItemUseNestedPath, shouldItemUseRootPath } from '@/utils/pages';
+import { type IncludedMap, type RelationshipGraph, getEntryKey } from '@/utils/query/types';
+import { getLoadedGraph, getOrBuildGraph } from '@/utils/query/graph';
+import { getQueryKey } from '@/utils/query/helpers';
+import { needsParentPath, resolvePermalink } from '@/utils/permalink';
 
 /**
  * Fields added during the preparation process
@@ -21,6 +27,7 @@ import { shouldItemHavePage, shouldItemUseRootPath } from '@/utils/pages';
 export interface PreparedFields {
   slug: string;      // URL-safe identifier
   url?: string;      // Full URL path (if item has a page)
+  included?: IncludedMap; // Relations populated by query.include()
 }
 
 /**
@@ -29,15 +36,171 @@ export interface PreparedFields {
  */
 export type PreparedItem = BaseData & PreparedFields;
 
+/**
+ * Get the URL of an entry's page
+ * 
+ * Returns the entry's own url field when it has one (e.g., from a custom
+ * loader), otherwise builds it from the collection's permalink pattern, or
+ * from the entry's collection, rootPath and nestedPath settings. Works for
+ * entries of any collection, which is what hierarchy helpers need when a
+ * parent lives in another collection.
+ * 
+ * Nested paths and :parentPath are resolved through the relationship graph,
+ * so it must be loaded (prepareEntry and the query helpers take care of that).
+ * 
+ * @param entry - Raw collection entry from Astro
+ * @param meta - Collection metadata (defaults to the entry's collection meta)
+ * @param graph - Relationship graph (defaults to the loaded graph)
+ * @returns URL path, or undefined if the item has no page
+ * @example
+ * getEntryUrl(serviceEntry) // '/services/web-development'
+ * getEntryUrl(aboutPage)    // '/about' (rootPath: true)
+ * getEntryUrl(childEntry)   // '/services/web-development/ecommerce' (nestedPath: true)
+ * getEntryUrl(blogPost)     // '/blog/2024/01/first-post' (permalink: /blog/:year/:month/:slug)
+ */
+export function getEntryUrl<T extends CollectionKey>(
+  entry: CollectionEntry<T>,
+  meta: MetaData = getCollectionMeta(entry.collection),
+  graph: RelationshipGraph | null = getLoadedGraph()
+): string | undefined {
+  return buildEntryUrl(entry, meta, graph, new Set());
+}
+
+/**
+ * Get the nested URL of an entry (parent URL + slug)
+ * 
+ * @returns URL path, or undefined if the entry doesn't use nestedPath or its
+ * parent has no page (it then keeps its root or collection path)
+ * @example
+ * getNestedUrl(childEntry) // '/services/web-development/ecommerce'
+ * getNestedUrl(rootEntry)  // undefined
+ */
+export function getNestedUrl<T extends CollectionKey>(
+  entry: CollectionEntry<T>,
+  meta: MetaData = getCollectionMeta(entry.collection),
+  graph: RelationshipGraph | null = getLoadedGraph()
+): string | undefined {
+  return buildNestedUrl(entry, meta, graph, new Set());
+}
+
+/**
+ * Check if an entry's URL comes from a permalink pattern or its parent chain
+ * rather than the plain /slug or /collection/slug (the catch-all route
+ * generates these pages)
+ */
+export function hasCustomUrl<T extends CollectionKey>(
+  entry: CollectionEntry<T>,
+  meta: MetaData = getCollectionMeta(entry.collection),
+  graph: RelationshipGraph | null = getLoadedGraph()
+): boolean {
+  return !!meta.permalink || !!getNestedUrl(entry, meta, graph);
+}
+
+/**
+ * Helper: Build an entry URL, tracking visited entries to survive parent cycles
+ */
+function buildEntryUrl(
+  entry: CollectionEntry<CollectionKey>,
+  meta: MetaData,
+  graph: RelationshipGraph | null,
+  visited: Set<string>
+): string | undefined {
+  const data = entry.data as Record<string, any>;
+  if (data.url !== undefined) return data.url;
+  if (!shouldItemHavePage(entry, meta)) return undefined;
+  
+  if (meta.permalink) {
+    return resolvePermalink(meta.permalink, {
+      collection: entry.collection,
+      slug: getItemKey(entry),
+      data,
+      parentPath: needsParentPath(meta.permalink) ? getParentPath(entry, requireGraph(entry, graph)) : undefined,
+    });
+  }
+  
+  const nestedUrl = buildNestedUrl(entry, meta, graph, visited);
+  if (nestedUrl) return nestedUrl;
+  
+  const identifier = getItemKey(entry);
+  return shouldItemUseRootPath(entry, meta)
+    ? `/${identifier}`
+    : `/${entry.collection}/${identifier}`;
+}
+
+/**
+ * Helper: Build a nested URL from the parent's URL
+ */
+function buildNestedUrl(
+  entry: CollectionEntry<CollectionKey>,
+  meta: MetaData,
+  graph: RelationshipGraph | null,
+  visited: Set<string>
+): string | undefined {
+  if (!shouldItemUseNestedPath(entry, meta)) return undefined;
+  graph = requireGraph(entry, graph);
+  
+  const id = getQueryKey(entry);
+  visited.add(getEntryKey(entry.collection, id));
+  
+  const parent = graph.nodes.get(entry.collection)?.get(id)?.parent;
+  if (!parent || visited.has(getEntryKey(parent.collection, parent.id))) return undefined;
+  
+  const parentEntry = graph.nodes.get(parent.collection)?.get(parent.id)?.entry;
+  if (!parentEntry) return undefined;
+  
+  const parentUrl = buildEntryUrl(parentEntry, getCollectionMeta(parent.collection), graph, visited);
+  return parentUrl && `${parentUrl.replace(/\/$/, '')}/${getItemKey(entry)}`;
+}
+
+/**
+ * Helper: Slugs of an entry's ancestors, root first (for :parentPath)
+ */
+function getParentPath(
+  entry: CollectionEntry<CollectionKey>,
+  graph: RelationshipGraph
+): string[] {
+  const path: string[] = [];
+  const visited = new Set<string>([getEntryKey(entry.collection, getQueryKey(entry))]);
+  let parent = graph.nodes.get(entry.collection)?.get(getQueryKey(entry))?.parent;
+  
+  while (parent && !visited.has(getEntryKey(parent.collection, parent.id))) {
+    visited.add(getEntryKey(parent.collection, parent.id));
+    const parentMap = graph.nodes.get(parent.collection)?.get(parent.id);
+    if (!parentMap) break;
+    
+    path.unshift(getItemKey(parentMap.entry));
+    parent = parentMap.parent;
+  }
+  
+  return path;
+}
+
+/**
+ * Helper: The graph nested URLs are resolved with, or a helpful error
+ */
+function requireGraph(
+  entry: CollectionEntry<CollectionKey>,
+  graph: RelationshipGraph | null
+): RelationshipGraph {
+  if (!graph) {
+    throw new Error(
+      `Nested paths need the relationship graph (${entry.collection}/${getItemKey(entry)}). ` +
+      `Use prepareEntry(), or await getOrBuildGraph() before getEntryUrl().`
+    );
+  }
+  return graph;
+}
+
 /**
  * Prepare a single collection entry for use in pages/components
  * 
  * This function:
  * 1. Extracts the entry's unique identifier (slug/id)
- * 2. Determines if item should use root path or collection path
+ * 2. Determines if item should use root, collection, nested or permalink path
  * 3. Generates URL if the item should have its own page
  * 4. Preserves any existing URL (e.g., from menu-items loader)
  * 5. Keeps references as-is (components will query for them)
+ * 6. Passes through relations populated by query.include()
  * 
  * @param entry - Raw collection entry from Astro
  * @param collection - Name of the collection this entry belongs to
@@ -60,24 +223,24 @@ export async function prepareEntry<T extends CollectionKey>(
   // Keep raw data - components will query for references themselves
   const data = entry.data as Record<string, any>;
   
-  // Check if this entry already has a URL (e.g., from a custom loader)
-  const hasExistingUrl = data.url !== undefined;
+  // Nested URLs and :parentPath follow the parent chain through the relationship graph
+  if (data.url === undefined && (shouldItemUseNestedPath(entry, meta) || needsParentPath(meta.permalink))) {
+    await getOrBuildGraph();
+  }
   
-  // Determine if item should have a page
-  const hasPage = shouldItemHavePage(entry, meta);
+  // Keep an existing URL (e.g., from a custom loader), otherwise build one
+  // based on hasPage, rootPath and nestedPath
+  const itemUrl = data.url === undefined ? getEntryUrl(entry, meta) : undefined;
   
-  // Determine URL path based on rootPath setting
-  let itemUrl: string | undefined;
-  if (!hasExistingUrl && hasPage) {
-    const useRootPath = shouldItemUseRootPath(entry, meta);
-    itemUrl = useRootPath ? `/${identifier}` : `/${collection}/${identifier}`;
-  }
+  // Relations eagerly resolved by query.include(), if any
+  const included = (entry as { included?: IncludedMap }).included;
   
   // Return the prepared item with slug and conditional URL
   return {
     ...data,
     slug: identifier,
-    ...(itemUrl && { url: itemUrl })
+    ...(itemUrl && { url: itemUrl }),
+    ...(included && { included })
   } as PreparedItem;
 }
 
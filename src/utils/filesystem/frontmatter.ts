@@ -41,7 +41,11 @@ export function parseFrontmatterFromString(content: string): Record<string, any>
       return {};
     }
     
-    const frontmatter = frontmatterMatch[1];
+    // Drop comment lines, which would otherwise run into the previous value
+    const frontmatter = frontmatterMatch[1]
+      .split('\n')
+      .filter(line => !line.trimStart().startsWith('#'))
+      .join('\n');
     const result: Record<string, any> = {};
     
     // Parse each field
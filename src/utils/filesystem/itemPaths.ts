@@ -0,0 +1,171 @@
+// src/utils/filesystem/itemPaths.ts
+/**
+ * Node.js-Compatible Item URLs
+ *
+ * Builds item URLs from raw frontmatter: the collection's permalink pattern,
+ * or the parent chain for items with nested paths, or the root/collection
+ * path. This is the Node.js counterpart of getEntryUrl()
+ * in src/utils/collections/prepare.ts (which resolves parents through the
+ * relationship graph) - keep the two in sync.
+ *
+ * Used by the menu items loader and the redirect collectors.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseFrontmatter } from './frontmatter';
+import { shouldItemHavePage, shouldItemUseNestedPath, shouldItemUseRootPath } from './pageLogic';
+import { needsParentPath, resolvePermalink } from '../permalink';
+
+/**
+ * Frontmatter of an item and of its collection's _meta.mdx
+ */
+export interface ItemSource {
+  data: Record<string, any>;
+  meta: Record<string, any>;
+}
+
+/**
+ * Look up an item by collection and slug
+ */
+export type ItemLookup = (collection: string, slug: string) => ItemSource | undefined;
+
+/**
+ * Get the URL of an item's page (Node.js version)
+ *
+ * @param collection - Collection name
+ * @param slug - Item slug (filename without extension)
+ * @param lookup - Finds items and their collection meta (see createFileLookup)
+ * @returns URL path, or undefined if the item has no page
+ * @example
+ * const lookup = createFileLookup();
+ * getItemUrl('services', 'web-development', lookup) // '/web-development' (itemsRootPath)
+ * getItemUrl('portfolio', 'ecommerce-platform', lookup)
+ * // '/web-development/ecommerce-platform' with itemsNestedPath: true
+ */
+export function getItemUrl(
+  collection: string,
+  slug: string,
+  lookup: ItemLookup,
+  visited: Set<string> = new Set()
+): string | undefined {
+  const item = lookup(collection, slug);
+  if (!item || !shouldItemHavePage(item.data, item.meta)) return undefined;
+  
+  visited.add(`${collection}/${slug}`);
+  
+  // Permalink pattern from _meta.mdx wins
+  if (item.meta.permalink) {
+    return resolvePermalink(item.meta.permalink, {
+      collection,
+      slug,
+      data: item.data,
+      parentPath: needsParentPath(item.meta.permalink) ? getParentPath(collection, slug, lookup) : undefined,
+    });
+  }
+  
+  // Nested: under the parent's page, if it has one
+  if (shouldItemUseNestedPath(item.data, item.meta)) {
+    const parent = getParentLocation(item.data.parent, collection, lookup);
+    
+    if (parent && !visited.has(`${parent.collection}/${parent.slug}`)) {
+      const parentUrl = getItemUrl(parent.collection, parent.slug, lookup, visited);
+      if (parentUrl) return `${parentUrl.replace(/\/$/, '')}/${slug}`;
+    }
+  }
+  
+  return shouldItemUseRootPath(item.data, item.meta)
+    ? `/${slug}`
+    : `/${collection}/${slug}`;
+}
+
+/**
+ * Create a lookup that reads items from the content directory
+ * Files are parsed once per lookup.
+ *
+ * @param contentDir - Path to content directory
+ * @returns Item lookup for getItemUrl
+ */
+export function createFileLookup(
+  contentDir: string = path.join(process.cwd(), 'src', 'content')
+): ItemLookup {
+  const metas = new Map<string, Record<string, any>>();
+  const items = new Map<string, ItemSource | undefined>();
+  
+  const getMeta = (collection: string): Record<string, any> => {
+    if (!metas.has(collection)) {
+      const metaPath = path.join(contentDir, collection, '_meta.mdx');
+      metas.set(collection, fs.existsSync(metaPath) ? parseFrontmatter(metaPath) : {});
+    }
+    return metas.get(collection)!;
+  };
+  
+  return (collection, slug) => {
+    const key = `${collection}/${slug}`;
+    
+    if (!items.has(key)) {
+      const filePath = ['.mdx', '.md']
+        .map(ext => path.join(contentDir, collection, `${slug}${ext}`))
+        .find(file => fs.existsSync(file));
+      
+      items.set(key, filePath
+        ? { data: parseFrontmatter(filePath), meta: getMeta(collection) }
+        : undefined);
+    }
+    
+    return items.get(key);
+  };
+}
+
+/**
+ * Helper: Slugs of an item's ancestors, root first (for :parentPath)
+ */
+function getParentPath(collection: string, slug: string, lookup: ItemLookup): string[] {
+  const path: string[] = [];
+  const visited = new Set<string>([`${collection}/${slug}`]);
+  let parent = getParentLocation(lookup(collection, slug)?.data.parent, collection, lookup);
+  
+  while (parent && !visited.has(`${parent.collection}/${parent.slug}`)) {
+    visited.add(`${parent.collection}/${parent.slug}`);
+    const item = lookup(parent.collection, parent.slug);
+    if (!item) break;
+    
+    path.unshift(parent.slug);
+    parent = getParentLocation(item.data.parent, parent.collection, lookup);
+  }
+  
+  return path;
+}
+
+/**
+ * Helper: Resolve a raw parent field to a collection and slug
+ * Accepts "id" (same collection), "collection/id" or { collection, id }.
+ */
+function getParentLocation(
+  parent: any,
+  collection: string,
+  lookup: ItemLookup
+): { collection: string; slug: string } | undefined {
+  if (!parent) return undefined;
+  
+  if (typeof parent === 'object' && parent.collection && parent.id) {
+    return { collection: parent.collection, slug: stripExtension(parent.id) };
+  }
+  
+  if (typeof parent !== 'string') return undefined;
+  
+  const slash = parent.indexOf('/');
+  if (slash > 0) {
+    const other = { collection: parent.slice(0, slash), slug: stripExtension(parent.slice(slash + 1)) };
+    if (lookup(other.collection, other.slug)) return other;
+  }
+  
+  return { collection, slug: stripExtension(parent) };
+}
+
+/**
+ * Helper: Remove a content file extension from an id
+ */
+function stripExtension(id: string): string {
+  return id.replace(/\.(mdx|md)$/, '');
+}
\ No newline at end of file
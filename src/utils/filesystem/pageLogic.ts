@@ -24,6 +24,8 @@
  * - The actual logic should remain identical to pages.ts
  */
 
+import { isPublished } from '../publishing';
+
 /**
  * Get property value using override pattern
  * Item property > Collection property > Default
@@ -57,7 +59,8 @@ function getItemProperty<T>(
 /**
  * Determine if an item should have a page (Node.js version)
  * 
- * Uses override pattern:
+ * Unpublished items never get pages outside preview mode (see isPublished).
+ * Otherwise uses override pattern:
  * - Item's hasPage field (if present)
  * - Collection's itemsHasPage setting from _meta.mdx
  * - Default: true (most items should have pages)
@@ -67,7 +70,7 @@ function getItemProperty<T>(
  * @returns True if item should have a page
  */
 export function shouldItemHavePage(itemData: any, metaData: any): boolean {
-  return getItemProperty(itemData, metaData, 'hasPage', 'itemsHasPage', true);
+  return isPublished(itemData) && getItemProperty(itemData, metaData, 'hasPage', 'itemsHasPage', true);
 }
 
 /**
@@ -86,4 +89,20 @@ export function shouldItemHavePage(itemData: any, metaData: any): boolean {
  */
 export function shouldItemUseRootPath(itemData: any, metaData: any): boolean {
   return getItemProperty(itemData, metaData, 'rootPath', 'itemsRootPath', false);
+}
+
+/**
+ * Determine if an item's URL should nest under its parent's URL (Node.js version)
+ * 
+ * Uses override pattern:
+ * - Item's nestedPath field (if present)
+ * - Collection's itemsNestedPath setting from _meta.mdx
+ * - Default: false
+ * 
+ * @param itemData - Item frontmatter (plain object from parseFrontmatter)
+ * @param metaData - Collection meta (plain object from parseFrontmatter)
+ * @returns True if item should use a nested path
+ */
+export function shouldItemUseNestedPath(itemData: any, metaData: any): boolean {
+  return getItemProperty(itemData, metaData, 'nestedPath', 'itemsNestedPath', false);
 }
\ No newline at end of file
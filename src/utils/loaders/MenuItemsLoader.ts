@@ -15,7 +15,9 @@ import { getCollectionMeta, getCollectionNames } from '@/utils/collections';
 import { capitalize } from '@/utils/string';
 import { parseContentPath, isMetaFile } from '@/utils/paths';
 import { shouldItemHavePage, shouldItemUseRootPath } from '@/utils/filesystem/pageLogic';
+import { type ItemLookup, getItemUrl } from '@/utils/filesystem/itemPaths';
 import { SimpleIdRegistry } from '@/utils/idRegistry';
+import { isPublished } from '@/utils/publishing';
 
 const MENU_ITEMS_JSON_PATH = 'src/content/menu-items/menu-items.json';
 const MENUS_COLLECTION = 'menus' as const;
@@ -121,6 +123,25 @@ function ensureArray<T>(value: T | T[]): T[] {
   return Array.isArray(value) ? value : [value];
 }
 
+/**
+ * Create an item lookup over the loaded content modules
+ * Used to resolve nested item URLs through parents in any collection.
+ */
+function createModuleLookup(modules: Record<string, any>): ItemLookup {
+  const items = new Map<string, any>();
+  
+  for (const [path, mod] of Object.entries(modules)) {
+    if (isMetaFile(path)) continue;
+    const { collection, slug } = parseContentPath(path);
+    items.set(`${collection}/${slug}`, mod.frontmatter ?? {});
+  }
+  
+  return (collection, slug) => {
+    const data = items.get(`${collection}/${slug}`);
+    return data && { data, meta: getCollectionMeta(collection) };
+  };
+}
+
 /**
  * Create the menu items loader
  */
@@ -155,11 +176,13 @@ export function MenuItemsLoader(): Loader {
         { eager: true }
       );
 
+      const lookup = createModuleLookup(mdxMods);
+
       // Step 4: Process individual item addToMenu fields
-      await processItemMenus(mdxMods, store);
+      await processItemMenus(mdxMods, store, lookup);
 
       // Step 5: Process collection-level addToMenu and itemsAddToMenu
-      await processCollectionMenus(mdxMods, store);
+      await processCollectionMenus(mdxMods, store, lookup);
 
       logger.info(`Menu items loader: ${store.keys().length} items loaded`);
     },
@@ -171,13 +194,15 @@ export function MenuItemsLoader(): Loader {
  */
 async function processItemMenus(
   modules: Record<string, any>,
-  store: any
+  store: any,
+  lookup: ItemLookup
 ): Promise<void> {
   for (const [path, mod] of Object.entries(modules)) {
     if (isMetaFile(path)) continue;
 
     const data = mod.frontmatter ?? {};
     if (!data.addToMenu) continue;
+    if (!isPublished(data)) continue;
 
     const { collection, slug } = parseContentPath(path);
     const meta = getCollectionMeta(collection);
@@ -207,9 +232,11 @@ async function processItemMenus(
       // Get unique ID (adds number only if semantic ID is taken)
       const itemId = getUniqueId(semanticId);
       
-      // Determine URL
+      // Determine URL (nested items follow their parent's URL)
       const useRootPath = shouldItemUseRootPath(data, meta);
-      const itemUrl = menuConfig.url ?? (useRootPath ? `/${slug}` : `/${collection}/${slug}`);
+      const itemUrl = menuConfig.url
+        ?? getItemUrl(collection, slug, lookup)
+        ?? (useRootPath ? `/${slug}` : `/${collection}/${slug}`);
       
       const menus = normalizeMenuReference(menuConfig.menu);
 
@@ -235,7 +262,8 @@ async function processItemMenus(
  */
 async function processCollectionMenus(
   modules: Record<string, any>,
-  store: any
+  store: any,
+  lookup: ItemLookup
 ): Promise<void> {
   const collections = getCollectionNames().filter(c => c !== 'menus' && c !== 'menu-items');
 
@@ -278,7 +306,7 @@ async function processCollectionMenus(
 
     // Process itemsAddToMenu
     if (meta.itemsAddToMenu) {
-      await processItemsAddToMenu(collection, meta, modules, store);
+      await processItemsAddToMenu(collection, meta, modules, store, lookup);
     }
   }
 }
@@ -290,7 +318,8 @@ async function processItemsAddToMenu(
   collection: string,
   meta: any,
   modules: Record<string, any>,
-  store: any
+  store: any,
+  lookup: ItemLookup
 ): Promise<void> {
   const configs = ensureArray(meta.itemsAddToMenu);
 
@@ -339,8 +368,7 @@ async function processItemsAddToMenu(
       if (!shouldItemHavePage(data, meta)) continue;
 
       // Generate menu item
-      const useRootPath = shouldItemUseRootPath(data, meta);
-      const itemUrl = useRootPath ? `/${slug}` : `/${collection}/${slug}`;
+      const itemUrl = getItemUrl(collection, slug, lookup)!;
       
       // Simple parent logic
       let parent = attachTo;
@@ -7,53 +7,24 @@
 
 import type { CollectionEntry } from 'astro:content';
 import { query, sortBy } from '@/utils/query';
+import { buildTree, byField, type ShapeTreeOptions, type TreeItem } from '@/utils/tree';
 
 /**
  * Build hierarchical menu tree from flat items
+ * Items are keyed by loader ID and sorted by order; see buildTree() for options.
+ * 
+ * @example
+ * buildMenuTree(items, { maxDepth: 2, activePath: Astro.url.pathname });
  */
-export function buildMenuTree(items: any[]): any[] {
-  const itemMap = new Map();
-  const roots: any[] = [];
-  
-  // First pass: create nodes with children arrays
-  // ✅ Use loader ID, not slug
-  items.forEach(item => {
-    const id = item.id || item.slug;  // Changed order!
-    itemMap.set(id, { ...item, children: [] });
+export function buildMenuTree(
+  items: any[],
+  options: ShapeTreeOptions<any> = {}
+): TreeItem<any>[] {
+  return buildTree(items, {
+    getId: item => item.id || item.slug,
+    sort: byField('order'),
+    ...options,
   });
-  
-  // Second pass: build hierarchy
-  items.forEach(item => {
-    const id = item.id || item.slug;  // Changed order!
-    const node = itemMap.get(id);
-    const parent = item.parent;
-    
-    if (parent) {
-      const parentId = typeof parent === 'string' ? parent : parent.id;
-      const parentNode = itemMap.get(parentId);
-      
-      if (parentNode) {
-        parentNode.children.push(node);
-      } else {
-        roots.push(node);
-      }
-    } else {
-      roots.push(node);
-    }
-  });
-  
-  // Sort recursively
-  const sortTree = (nodes: any[]) => {
-    nodes.sort((a, b) => (a.order ?? 999) - (b.order ?? 999));
-    nodes.forEach(node => {
-      if (node.children?.length > 0) {
-        sortTree(node.children);
-      }
-    });
-  };
-  
-  sortTree(roots);
-  return roots;
 }
 
 /**
@@ -3,15 +3,16 @@
  * Item Page Generation Helpers
  * 
  * Shared utilities for generating individual item pages.
- * Used by both root-level and collection-level page routes.
+ * Used by the root-level, collection-level and nested page routes.
  */
 
 import type { CollectionKey, CollectionEntry } from "astro:content";
 import { getCollection } from "astro:content";
-import { getCollectionMeta, getItemKey } from "@/utils/collections";
+import { getCollectionMeta, getEntryUrl, getItemKey, hasCustomUrl } from "@/utils/collections";
 import { shouldItemHavePage, shouldItemUseRootPath, shouldProcessCollection } from "@/utils/pages";
 import { getPageCollections } from "@/utils/pageGeneration";
 import { buildItemSEOProps } from "@/utils/seo";
+import { getOrBuildGraph } from "@/utils/query";
 import { getLayoutName, getLayoutComponent } from "@/layouts/collections/helpers/layoutUtils";
 import type { MetaData } from "@/content/schema";
 
@@ -38,6 +39,13 @@ export interface CollectionLevelPathParams {
   slug: string;
 }
 
+/**
+ * Path parameters for nested and permalink items (catch-all route)
+ */
+export interface CustomPathParams {
+  path: string;
+}
+
 /**
  * Props passed to item page components
  */
@@ -70,8 +78,11 @@ export interface PreparedPageData {
 /**
  * Generate static paths for items matching a filter
  * 
- * Generic function that handles path generation for both
- * root-level and collection-level routes.
+ * Generic function that handles path generation for the
+ * root-level, collection-level and nested routes.
+ * 
+ * Also builds the relationship graph, so content integrity errors
+ * (dangling references, parent cycles) fail the build before any page renders.
  * 
  * @param filter - Function to determine which items to include
  * @param buildParams - Function to build path params from entry
@@ -79,11 +90,13 @@ export interface PreparedPageData {
  */
 export async function generateItemPaths<TParams>(
   filter: ItemFilter,
-  buildParams: (collection: string, slug: string) => TParams
+  buildParams: (collection: string, slug: string, entry: CollectionEntry<CollectionKey>) => TParams
 ): Promise<StaticPath<TParams>[]> {
   const collections = getPageCollections();
   const paths: StaticPath<TParams>[] = [];
 
+  await getOrBuildGraph();
+
   for (const coll of collections) {
     const shouldProcess = await shouldProcessCollection(coll);
     if (!shouldProcess) continue;
@@ -96,7 +109,7 @@ export async function generateItemPaths<TParams>(
       .forEach((entry) => {
         const slug = getItemKey(entry);
         paths.push({
-          params: buildParams(coll, slug),
+          params: buildParams(coll, slug, entry),
           props: {
             entry,
             collectionMeta: meta,
@@ -154,18 +167,27 @@ export async function prepareItemPageData(
 
 /**
  * Filter for root-level items
- * Items that should have a page AND use root path
+ * Items that should have a page AND use root path (without a custom URL)
  */
 export const rootLevelFilter: ItemFilter = (entry, meta) => {
-  return shouldItemHavePage(entry, meta) && shouldItemUseRootPath(entry, meta);
+  return shouldItemHavePage(entry, meta) && shouldItemUseRootPath(entry, meta) && !hasCustomUrl(entry, meta);
 };
 
 /**
  * Filter for collection-level items
- * Items that should have a page but NOT use root path
+ * Items that should have a page but NOT use root path (without a custom URL)
  */
 export const collectionLevelFilter: ItemFilter = (entry, meta) => {
-  return shouldItemHavePage(entry, meta) && !shouldItemUseRootPath(entry, meta);
+  return shouldItemHavePage(entry, meta) && !shouldItemUseRootPath(entry, meta) && !hasCustomUrl(entry, meta);
+};
+
+/**
+ * Filter for items with a custom URL
+ * Items that should have a page under their parent's URL (nestedPath)
+ * or at their collection's permalink pattern
+ */
+export const customPathFilter: ItemFilter = (entry, meta) => {
+  return shouldItemHavePage(entry, meta) && hasCustomUrl(entry, meta);
 };
 
 /**
@@ -186,4 +208,15 @@ export function buildCollectionLevelParams(
   slug: string
 ): CollectionLevelPathParams {
   return { collection, slug };
+}
+
+/**
+ * Build params for custom paths (URL without the leading slash)
+ */
+export function buildCustomPathParams(
+  _collection: string,
+  _slug: string,
+  entry: CollectionEntry<CollectionKey>
+): CustomPathParams {
+  return { path: getEntryUrl(entry)!.replace(/^\//, '') };
 }
\ No newline at end of file
@@ -6,9 +6,10 @@
  * Uses the override pattern from metaOverrides.ts to respect both
  * collection-level and item-level settings.
  * 
- * Four key functions:
+ * Five key functions:
  * - shouldItemHavePage: Does this specific item get a page?
  * - shouldItemUseRootPath: Should item be at root level (e.g., /about)?
+ * - shouldItemUseNestedPath: Should item's URL follow its parent chain?
  * - shouldCollectionHavePage: Does the collection get an index page?
  * - shouldProcessCollection: Should we even look at this collection?
  */
@@ -18,11 +19,13 @@ import { getCollection } from 'astro:content';
 import { getCollectionMeta } from '@/utils/collections';
 import type { MetaData } from '@/content/schema';
 import { getItemProperty } from '@/utils/metaOverrides';
+import { isPublished } from '@/utils/publishing';
 
 /**
  * Determine if an individual item should have its own page
  * 
- * Uses override pattern:
+ * Unpublished items (drafts, scheduled, expired - see isPublished) never
+ * get pages outside preview mode. Otherwise uses override pattern:
  * - Item's hasPage field (if present)
  * - Collection's itemsHasPage setting from _meta.mdx
  * - Default: true (most items should have pages)
@@ -41,7 +44,7 @@ export function shouldItemHavePage(
   item: CollectionEntry<CollectionKey>,
   meta: MetaData
 ): boolean {
-  return getItemProperty(
+  return isPublished(item.data) && getItemProperty(
     item.data,
     meta,
     'hasPage',      // item-level property
@@ -84,6 +87,37 @@ export function shouldItemUseRootPath(
   );
 }
 
+/**
+ * Determine if an item's URL should nest under its parent's URL
+ * 
+ * Uses override pattern:
+ * - Item's nestedPath field (if present)
+ * - Collection's itemsNestedPath setting from _meta.mdx
+ * - Default: false
+ * 
+ * When true and the item's parent has a page, the item is accessible at
+ * parentUrl/slug (e.g. /services/web-development/ecommerce). Items without
+ * a parent page keep their root or collection path.
+ * 
+ * @param item - Collection entry to check
+ * @param meta - Collection metadata
+ * @returns True if item should use a nested path
+ * @example
+ * shouldItemUseNestedPath({ data: {} }, { itemsNestedPath: true }) // true
+ */
+export function shouldItemUseNestedPath(
+  item: CollectionEntry<CollectionKey>,
+  meta: MetaData
+): boolean {
+  return getItemProperty(
+    item.data,
+    meta,
+    'nestedPath',      // item-level property
+    'itemsNestedPath', // collection-level property
+    false              // default value
+  );
+}
+
 /**
  * Determine if a collection should have an index page
  * 
@@ -0,0 +1,110 @@
+// src/utils/permalink.ts
+/**
+ * Permalink Patterns
+ *
+ * Resolves a collection's `permalink` pattern from _meta.mdx into an item URL:
+ *
+ *   permalink: "/blog/:year/:month/:slug"  → /blog/2024/01/first-post
+ *   permalink: "/team/:slug"               → /team/jane-doe
+ *   permalink: "/docs/:parentPath/:slug"   → /docs/getting-started/install
+ *
+ * Tokens:
+ * - :slug, :collection
+ * - :year, :month, :day (from publishDate, UTC)
+ * - :parentPath (ancestor slugs, root first; empty for root items)
+ * - any other :field of the entry data (slugified; the first value of arrays)
+ *
+ * Works with parsed entry data and raw frontmatter alike, so both
+ * getEntryUrl() and the Node.js-side getItemUrl() use it.
+ */
+
+import { slugify } from './string';
+
+/**
+ * What a permalink is resolved from
+ */
+export interface PermalinkContext {
+  collection: string;
+  slug: string;
+  data: Record<string, any>;
+  parentPath?: string[];    // Ancestor slugs, root first
+}
+
+const TOKEN_PATTERN = /:(\w+)/g;
+
+/**
+ * Resolve a permalink pattern for an item
+ *
+ * @param pattern - Pattern from _meta.mdx
+ * @param context - Item collection, slug, data and ancestors
+ * @returns URL path (leading slash, no trailing slash)
+ * @throws Error if a token has no value for the item
+ * @example
+ * resolvePermalink('/blog/:year/:month/:slug', {
+ *   collection: 'blog', slug: 'first-post', data: { publishDate: '2024-01-15' }
+ * }) // '/blog/2024/01/first-post'
+ */
+export function resolvePermalink(pattern: string, context: PermalinkContext): string {
+  const url = pattern.replace(TOKEN_PATTERN, (_match, token: string) => {
+    const value = getTokenValue(token, context);
+
+    if (value === undefined) {
+      throw new Error(
+        `Permalink "${pattern}" needs :${token}, but ${context.collection}/${context.slug} has no value for it`
+      );
+    }
+
+    return value;
+  });
+
+  // Empty tokens (e.g. :parentPath of a root item) leave double slashes
+  const path = url.replace(/\/{2,}/g, '/').replace(/(.)\/$/, '$1');
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Check if a permalink pattern needs the item's ancestors
+ */
+export function needsParentPath(pattern: string | undefined): boolean {
+  return !!pattern && pattern.includes(':parentPath');
+}
+
+/**
+ * Helper: Value of one token
+ */
+function getTokenValue(token: string, context: PermalinkContext): string | undefined {
+  const { collection, slug, data, parentPath = [] } = context;
+
+  switch (token) {
+    case 'slug':
+      return slug;
+    case 'collection':
+      return collection;
+    case 'parentPath':
+      return parentPath.join('/');
+    case 'year':
+    case 'month':
+    case 'day': {
+      const date = toDate(data.publishDate);
+      if (!date) return undefined;
+      if (token === 'year') return String(date.getUTCFullYear());
+      if (token === 'month') return String(date.getUTCMonth() + 1).padStart(2, '0');
+      return String(date.getUTCDate()).padStart(2, '0');
+    }
+  }
+
+  const value = Array.isArray(data[token]) ? data[token][0] : data[token];
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const segment = slugify(String(value));
+  return segment || undefined;
+}
+
+/**
+ * Helper: Parse a date field, ignoring invalid values
+ */
+function toDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+// src/utils/publishing.ts
+/**
+ * Publication Status
+ *
+ * The single check for whether an entry is live: not a draft, past its
+ * publishDate and before its expiresAt. Page generation (shouldItemHavePage),
+ * queries, the relationship graph, menus, redirects and the search index all
+ * ask isPublished().
+ *
+ * Works with raw frontmatter as well as parsed entry data (dates may be
+ * strings or Date objects), so it is safe to use from astro.config.mjs and
+ * loaders - it must not import astro:content.
+ *
+ * Preview mode shows unpublished entries everywhere:
+ * - On by default in `astro dev`
+ * - SHOW_DRAFTS=true forces it on (e.g. a preview deploy), SHOW_DRAFTS=false off
+ */
+
+/**
+ * Where an entry is in its publication lifecycle
+ */
+export type PublishStatus =
+  | 'published'   // Live
+  | 'draft'       // draft: true
+  | 'scheduled'   // publishDate in the future
+  | 'expired';    // expiresAt in the past
+
+/**
+ * Fields the publication status is read from
+ * (any entry data or frontmatter object is accepted)
+ */
+export interface PublishFields {
+  draft?: boolean;
+  publishDate?: Date | string;
+  expiresAt?: Date | string;
+  [field: string]: unknown;
+}
+
+/**
+ * Get the publication status of an entry
+ *
+ * @param data - Entry data or raw frontmatter
+ * @param now - Reference time (default: now, i.e. build time)
+ * @returns Publication status
+ * @example
+ * getPublishStatus({ draft: true })                      // 'draft'
+ * getPublishStatus({ publishDate: '2099-01-01' })        // 'scheduled'
+ * getPublishStatus({ expiresAt: '2020-01-01' })          // 'expired'
+ * getPublishStatus({ publishDate: new Date('2024-05') }) // 'published'
+ */
+export function getPublishStatus(
+  data: PublishFields | undefined,
+  now: Date = new Date()
+): PublishStatus {
+  if (data?.draft === true) return 'draft';
+
+  const publishDate = toDate(data?.publishDate);
+  if (publishDate && publishDate > now) return 'scheduled';
+
+  const expiresAt = toDate(data?.expiresAt);
+  if (expiresAt && expiresAt <= now) return 'expired';
+
+  return 'published';
+}
+
+/**
+ * Check if an entry should be visible
+ * Always true in preview mode (see showUnpublished).
+ *
+ * @param data - Entry data or raw frontmatter
+ * @returns True if the entry is published or previews are on
+ * @example
+ * getCollection('blog', entry => isPublished(entry.data))
+ */
+export function isPublished(data: PublishFields | undefined): boolean {
+  return showUnpublished() || getPublishStatus(data) === 'published';
+}
+
+/**
+ * Check if unpublished entries are shown (preview mode)
+ */
+export function showUnpublished(): boolean {
+  const flag = process.env.SHOW_DRAFTS;
+  if (flag !== undefined) return flag === 'true';
+  return process.env.NODE_ENV === 'development';
+}
+
+/**
+ * Helper: Parse a frontmatter date, ignoring invalid values
+ */
+function toDate(value: Date | string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,100 @@
+// src/utils/query/adjacent.ts
+/**
+ * Previous / Next Navigation
+ *
+ * Finds the entries before and after an entry, either across its collection
+ * or among its hierarchy siblings. Entries without pages (hasPage /
+ * itemsHasPage off) are skipped, so navigation never links to a missing page.
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { AdjacentEntries, AdjacentEntry, AdjacentOptions, RelationMap, SortConfig } from './types';
+import { getOrBuildGraph, getRelationMap } from './graph';
+import { applySorting } from './sorting';
+import { getQueryKey, normalizeId } from './helpers';
+import { getEntryUrl } from '@/utils/collections';
+
+const DEFAULT_SORT: SortConfig[] = [
+  { field: 'order', direction: 'asc' },
+  { field: 'publishDate', direction: 'asc' },
+  { field: 'title', direction: 'asc' },
+];
+
+/**
+ * Get the previous and next entries of an entry
+ *
+ * @param collection - Collection of the entry
+ * @param id - Entry ID
+ * @param options - Sort, scope, wrap-around and page filtering
+ * @returns prev / next with entry, title and URL (each undefined at the ends)
+ * @example
+ * const { prev, next } = await getAdjacent('blog', 'first-post');
+ * next?.url; // '/blog/second-post'
+ *
+ * // Among entries with the same parent, by title
+ * await getAdjacent('services', 'frontend', { scope: 'siblings', sort: sortByTitle() });
+ */
+export async function getAdjacent<T extends CollectionKey>(
+  collection: T,
+  id: string,
+  options: AdjacentOptions<T> = {}
+): Promise<AdjacentEntries> {
+  const {
+    sort = DEFAULT_SORT as SortConfig<T>[],
+    scope = 'collection',
+    loop = false,
+    pagesOnly = true,
+  } = options;
+  
+  const cleanId = normalizeId(id);
+  const graph = await getOrBuildGraph();
+  const relationMap = getRelationMap(graph, collection, cleanId);
+  
+  if (!relationMap) {
+    throw new Error(`Entry not found: ${collection}/${cleanId}`);
+  }
+  
+  const candidates = (scope === 'siblings'
+    ? getSiblingScope(graph.nodes, relationMap)
+    : [...(graph.nodes.get(collection)?.values() ?? [])].map(node => node.entry)
+  ).filter(entry => entry === relationMap.entry || !pagesOnly || getEntryUrl(entry));
+  
+  const sorted = applySorting(candidates as CollectionEntry<T>[], sort);
+  const index = sorted.indexOf(relationMap.entry as CollectionEntry<T>);
+  const at = (i: number): AdjacentEntry | undefined => {
+    const position = loop ? (i + sorted.length) % sorted.length : i;
+    const entry = sorted[position];
+    if (!entry || position === index) return undefined;
+    return {
+      entry,
+      title: (entry.data as { title?: string }).title ?? getQueryKey(entry),
+      url: getEntryUrl(entry),
+    };
+  };
+  
+  return {
+    prev: at(index - 1),
+    next: at(index + 1),
+  };
+}
+
+/**
+ * Helper: The entry and its siblings (other roots of its collection for roots)
+ */
+function getSiblingScope(
+  nodes: Map<string, Map<string, RelationMap>>,
+  relationMap: RelationMap
+): CollectionEntry<CollectionKey>[] {
+  if (!relationMap.parent) {
+    return [...(nodes.get(relationMap.entry.collection)?.values() ?? [])]
+      .filter(node => node.isRoot)
+      .map(node => node.entry);
+  }
+  
+  return [
+    relationMap.entry,
+    ...relationMap.siblings
+      .map(rel => nodes.get(rel.collection)?.get(rel.id)?.entry)
+      .filter((entry): entry is CollectionEntry<CollectionKey> => !!entry),
+  ];
+}
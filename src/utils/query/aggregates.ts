@@ -0,0 +1,212 @@
+// src/utils/query/aggregates.ts
+/**
+ * Aggregation Utilities
+ *
+ * Grouping, faceting and aggregate helpers for query results.
+ * Field values are expanded before grouping:
+ * - Array fields (tags, technologies) count once per element
+ * - Reference fields (author) group by referenced id
+ * - Missing values are skipped
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { AggregateFn, EntryData, FacetValue, FieldPath, QueryGroup } from './types';
+import { isCollectionReference } from './types';
+import { normalizeId } from './helpers';
+import { describe } from './describe';
+import { getFieldValue } from './fieldPath';
+
+/**
+ * Get the values of a field, expanding arrays
+ *
+ * @example
+ * getFieldValues(post, 'tags') // ['astro', 'mdx']
+ * getFieldValues(post, 'author') // [{ collection: 'authors', id: 'jane-doe' }]
+ */
+export function getFieldValues<T extends CollectionKey>(
+  entry: CollectionEntry<T>,
+  field: string
+): unknown[] {
+  const value = getFieldValue(entry.data, field);
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(v => v !== undefined && v !== null);
+}
+
+/**
+ * Get the grouping key for a value
+ * References use their id, dates their ISO string.
+ *
+ * @example
+ * getValueKey({ collection: 'authors', id: 'jane-doe' }) // 'jane-doe'
+ * getValueKey(new Date('2024-01-01')) // '2024-01-01T00:00:00.000Z'
+ */
+export function getValueKey(value: unknown): string {
+  if (isCollectionReference(value)) return normalizeId(value.id);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Aggregate: number of entries
+ * With a field, counts entries that have a value for it.
+ */
+export function count<T extends CollectionKey>(field?: FieldPath<EntryData<T>>): AggregateFn<T> {
+  return describe((entries: CollectionEntry<T>[]) => {
+    if (!field) return entries.length;
+    return entries.filter(entry => getFieldValues(entry, field).length > 0).length;
+  }, 'count', field ? [field] : []);
+}
+
+/**
+ * Aggregate: smallest value of a field (numbers, dates or strings)
+ */
+export function min<T extends CollectionKey>(field: FieldPath<EntryData<T>>): AggregateFn<T> {
+  return describe((entries: CollectionEntry<T>[]) => {
+    return extreme(entries, field, -1);
+  }, 'min', [field]);
+}
+
+/**
+ * Aggregate: largest value of a field (numbers, dates or strings)
+ */
+export function max<T extends CollectionKey>(field: FieldPath<EntryData<T>>): AggregateFn<T> {
+  return describe((entries: CollectionEntry<T>[]) => {
+    return extreme(entries, field, 1);
+  }, 'max', [field]);
+}
+
+/**
+ * Aggregate: sum of a numeric field (non-numeric values are ignored)
+ */
+export function sum<T extends CollectionKey>(field: FieldPath<EntryData<T>>): AggregateFn<T> {
+  return describe((entries: CollectionEntry<T>[]) => {
+    return entries
+      .flatMap(entry => getFieldValues(entry, field))
+      .reduce<number>((total, value) => typeof value === 'number' ? total + value : total, 0);
+  }, 'sum', [field]);
+}
+
+/**
+ * Aggregate: unique values of a field, in first-seen order
+ */
+export function distinct<T extends CollectionKey>(field: FieldPath<EntryData<T>>): AggregateFn<T> {
+  return describe((entries: CollectionEntry<T>[]) => {
+    const seen = new Map<string, unknown>();
+    for (const entry of entries) {
+      for (const value of getFieldValues(entry, field)) {
+        const key = getValueKey(value);
+        if (!seen.has(key)) seen.set(key, value);
+      }
+    }
+    return Array.from(seen.values());
+  }, 'distinct', [field]);
+}
+
+/**
+ * Run named aggregates over entries
+ */
+export function runAggregates<T extends CollectionKey>(
+  entries: CollectionEntry<T>[],
+  aggregates: Record<string, AggregateFn<T>>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, aggregate] of Object.entries(aggregates)) {
+    result[name] = aggregate(entries);
+  }
+  return result;
+}
+
+/**
+ * Group entries by field value
+ *
+ * Entries with several values (arrays) appear in several groups; entries
+ * without a value are left out. Groups keep the order in which their first
+ * entry appears, so they follow the query's sort.
+ *
+ * @example
+ * groupEntries(posts, 'author', { posts: count() })
+ * // [{ key: 'jane-doe', value: { collection: 'authors', id: 'jane-doe' }, count: 3, ... }]
+ */
+export function groupEntries<T extends CollectionKey>(
+  entries: CollectionEntry<T>[],
+  field: string,
+  aggregates: Record<string, AggregateFn<T>> = {}
+): QueryGroup<T>[] {
+  const groups = new Map<string, QueryGroup<T>>();
+
+  for (const entry of entries) {
+    const keys = new Set<string>();
+
+    for (const value of getFieldValues(entry, field)) {
+      const key = getValueKey(value);
+      if (keys.has(key)) continue;
+      keys.add(key);
+
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, value, count: 0, entries: [], aggregates: {} };
+        groups.set(key, group);
+      }
+      group.entries.push(entry);
+      group.count++;
+    }
+  }
+
+  const result = Array.from(groups.values());
+  for (const group of result) {
+    group.aggregates = runAggregates(group.entries, aggregates);
+  }
+  return result;
+}
+
+/**
+ * Count entries per value for each field
+ * Values are ordered by count (descending), then key.
+ *
+ * @example
+ * facetEntries(projects, ['category', 'technologies'])
+ * // { category: [{ key: 'web', value: 'web', count: 4 }], technologies: [...] }
+ */
+export function facetEntries<T extends CollectionKey>(
+  entries: CollectionEntry<T>[],
+  fields: string[]
+): Record<string, FacetValue[]> {
+  const facets: Record<string, FacetValue[]> = {};
+
+  for (const field of fields) {
+    facets[field] = groupEntries(entries, field)
+      .map(({ key, value, count }) => ({ key, value, count }))
+      .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+  }
+
+  return facets;
+}
+
+/**
+ * Helper: Find the min (-1) or max (1) comparable value of a field
+ */
+function extreme<T extends CollectionKey>(
+  entries: CollectionEntry<T>[],
+  field: string,
+  direction: 1 | -1
+): unknown {
+  let best: unknown = undefined;
+
+  for (const value of entries.flatMap(entry => getFieldValues(entry, field))) {
+    if (best === undefined || compareValues(value, best) * direction > 0) {
+      best = value;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Helper: Compare numbers, dates and strings
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
@@ -0,0 +1,91 @@
+// src/utils/query/cache.ts
+/**
+ * Query Cache
+ *
+ * Per-build memoization for the query layer. Results are keyed by query
+ * shape (collections + filter/sort descriptors), so two ContentRenderer
+ * instances asking the same question share one evaluation.
+ *
+ * Enabled by default in production builds only - in dev, content can change
+ * between requests and stale results would be confusing.
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import { getCollection } from 'astro:content';
+
+/**
+ * Cache statistics
+ */
+export interface QueryCacheStats {
+  enabled: boolean;
+  size: number;
+  hits: number;
+  misses: number;
+}
+
+const cache = new Map<string, Promise<unknown>>();
+let enabled = !import.meta.env.DEV;
+let hits = 0;
+let misses = 0;
+
+/**
+ * Get a cached value, or load and cache it
+ *
+ * Concurrent callers share the same pending promise. Failed loads are
+ * evicted so the next call retries.
+ *
+ * @param key - Cache key (undefined bypasses the cache)
+ * @param load - Loader called on a miss
+ */
+export function getCached<V>(key: string | undefined, load: () => Promise<V>): Promise<V> {
+  if (!enabled || key === undefined) {
+    return load();
+  }
+
+  const cached = cache.get(key);
+  if (cached) {
+    hits++;
+    return cached as Promise<V>;
+  }
+
+  misses++;
+  const pending = load().catch(error => {
+    cache.delete(key);
+    throw error;
+  });
+  cache.set(key, pending);
+  return pending;
+}
+
+/**
+ * Load a collection through the cache
+ */
+export function getCachedCollection<T extends CollectionKey>(
+  collection: T
+): Promise<CollectionEntry<T>[]> {
+  return getCached(`collection:${collection}`, () => getCollection(collection));
+}
+
+/**
+ * Enable or disable the query cache (clears it when disabling)
+ */
+export function setQueryCacheEnabled(value: boolean): void {
+  enabled = value;
+  if (!value) clearQueryCache();
+}
+
+/**
+ * Clear all cached query results
+ */
+export function clearQueryCache(): void {
+  cache.clear();
+  hits = 0;
+  misses = 0;
+}
+
+/**
+ * Get cache statistics
+ */
+export function getQueryCacheStats(): QueryCacheStats {
+  return { enabled, size: cache.size, hits, misses };
+}
@@ -0,0 +1,140 @@
+// src/utils/query/cursor.ts
+/**
+ * Cursor Utilities
+ *
+ * Encodes and decodes opaque cursor tokens for keyset pagination.
+ * A cursor captures the boundary entry's key plus its sort key values,
+ * so it stays valid even when the boundary entry itself is removed.
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { SortFn, SortConfig } from './types';
+import { getEntryKey } from './types';
+import { getSortKey } from './sorting';
+import { getQueryKey } from './helpers';
+import { getFieldValue, setFieldValue } from './fieldPath';
+
+/**
+ * Decoded cursor payload
+ */
+export interface CursorPayload {
+  key: string;          // Entry key (collection:id) of the boundary entry
+  fields: string[];     // Sort fields captured in the cursor
+  values: unknown[];    // Sort values of the boundary entry
+}
+
+/**
+ * Get the sort fields for a list of sorts
+ * Returns undefined for sorts that are opaque functions
+ */
+export function getSortFields<T extends CollectionKey>(
+  sorts: Array<SortFn<T> | SortConfig<T>>
+): Array<string | undefined> {
+  return sorts.map(sort =>
+    typeof sort === 'function' ? getSortKey(sort)?.field : sort.field
+  );
+}
+
+/**
+ * Get the cursor key for an entry
+ */
+export function getCursorKey(entry: CollectionEntry<CollectionKey>): string {
+  return getEntryKey(entry.collection as CollectionKey, getQueryKey(entry));
+}
+
+/**
+ * Encode a cursor for an entry under the given sorts
+ */
+export function encodeCursor<T extends CollectionKey>(
+  entry: CollectionEntry<T>,
+  sorts: Array<SortFn<T> | SortConfig<T>>
+): string {
+  const fields = getSortFields(sorts).filter((f): f is string => !!f);
+
+  const payload = {
+    k: getCursorKey(entry),
+    f: fields,
+    v: fields.map(field => serializeValue(getFieldValue(entry.data, field))),
+  };
+
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decode a cursor token
+ *
+ * @throws Error if the token is malformed
+ */
+export function decodeCursor(token: string): CursorPayload {
+  try {
+    const payload = JSON.parse(fromBase64Url(token));
+
+    if (typeof payload?.k !== 'string' || !Array.isArray(payload.f) || !Array.isArray(payload.v)) {
+      throw new Error('missing fields');
+    }
+
+    return {
+      key: payload.k,
+      fields: payload.f,
+      values: payload.v.map(deserializeValue),
+    };
+  } catch (error) {
+    throw new Error(`Invalid query cursor: ${token}`);
+  }
+}
+
+/**
+ * Build a stand-in entry from a cursor so it can be compared with sort functions
+ * Used when the boundary entry no longer exists in the result set
+ */
+export function cursorToEntry<T extends CollectionKey>(
+  cursor: CursorPayload
+): CollectionEntry<T> {
+  const [collection, ...idParts] = cursor.key.split(':');
+  const data: Record<string, unknown> = {};
+
+  cursor.fields.forEach((field, i) => {
+    setFieldValue(data, field, cursor.values[i]);
+  });
+
+  return { id: idParts.join(':'), collection, data } as unknown as CollectionEntry<T>;
+}
+
+/**
+ * Helper: Serialize a sort value (Dates survive JSON round-trips)
+ */
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $d: value.toISOString() };
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Helper: Deserialize a sort value
+ */
+function deserializeValue(value: any): unknown {
+  if (value && typeof value === 'object' && typeof value.$d === 'string') {
+    return new Date(value.$d);
+  }
+  return value;
+}
+
+/**
+ * Helper: Encode a UTF-8 string as base64url
+ */
+function toBase64Url(str: string): string {
+  const bytes = new TextEncoder().encode(str);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Helper: Decode a base64url string to UTF-8
+ */
+function fromBase64Url(token: string): string {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,217 @@
+// src/utils/query/definition.ts
+/**
+ * Declarative Query Definitions
+ *
+ * Compiles serializable query descriptions (from frontmatter, JSON or YAML)
+ * into Query builders using the existing filter and sort helpers.
+ *
+ * @example
+ * # src/content/blog/_meta.mdx
+ * query:
+ *   where:
+ *     - { field: tags, op: arrayContains, value: astro }
+ *   orderBy: { field: publishDate, direction: desc }
+ *   limit: 5
+ */
+
+import type { CollectionKey } from 'astro:content';
+import {
+  QueryDefinitionSchema,
+  type QueryCondition,
+  type QueryDefinition,
+  type QuerySort,
+} from '@/content/schema';
+import { getCollectionNames } from '@/utils/collections';
+import type { EntryData, FieldPath, FilterFn, IncludeField, SortFn } from './types';
+import { Query } from './query';
+import {
+  whereEquals,
+  whereExists,
+  whereIn,
+  whereContains,
+  whereStartsWith,
+  whereGreaterThan,
+  whereLessThan,
+  whereBetween,
+  whereAfter,
+  whereBefore,
+  whereArrayContains,
+  whereArrayContainsAny,
+  not,
+} from './filters';
+import { sortBy } from './sorting';
+
+/**
+ * Compile a query definition into a Query builder
+ *
+ * The definition is validated against QueryDefinitionSchema first, so raw
+ * frontmatter can be passed straight in. When the definition has no `from`,
+ * the fallback collection is used (e.g. the collection owning _meta.mdx).
+ *
+ * @param definition - Declarative query (or undefined for "all entries")
+ * @param fallbackCollection - Collection to use when `from` is omitted
+ * @returns Query builder ready for .get() or ContentRenderer
+ * @throws Error if no collection can be determined or a condition is invalid
+ */
+export function compileQuery<T extends CollectionKey>(
+  definition: QueryDefinition | Record<string, any> | undefined,
+  fallbackCollection?: T | T[]
+): Query<T> {
+  const parsed = QueryDefinitionSchema.parse(definition ?? {});
+  const collection = (parsed.from ?? fallbackCollection) as T | T[] | undefined;
+
+  if (!collection) {
+    throw new Error('Query definition has no "from" collection and no fallback was provided');
+  }
+
+  assertKnownCollections(Array.isArray(collection) ? collection : [collection]);
+
+  const q = new Query<T>(collection);
+
+  for (const condition of parsed.where ?? []) {
+    q.where(compileCondition<T>(condition));
+  }
+
+  const sorts = parsed.orderBy === undefined
+    ? []
+    : Array.isArray(parsed.orderBy) ? parsed.orderBy : [parsed.orderBy];
+
+  for (const sort of sorts) {
+    q.orderBy(compileSort<T>(sort));
+  }
+
+  if (parsed.limit !== undefined) q.limit(parsed.limit);
+  if (parsed.offset !== undefined) q.offset(parsed.offset);
+  if (parsed.include) q.include(...(parsed.include as IncludeField<T>[]));
+
+  return q;
+}
+
+/**
+ * Check whether a value looks like a query definition rather than a Query
+ *
+ * Decides on shape only (a plain object that is not a Query), so a malformed
+ * definition still reaches compileQuery() and fails with its schema error.
+ */
+export function isQueryDefinition(value: unknown): value is QueryDefinition {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Query)
+  );
+}
+
+/**
+ * Compile a single where condition into a filter function
+ */
+export function compileCondition<T extends CollectionKey>(
+  condition: QueryCondition
+): FilterFn<T> {
+  const { op, value, caseSensitive = false } = condition;
+  // Paths come from content at runtime; unknown fields simply match nothing
+  const field = condition.field as FieldPath<EntryData<T>>;
+
+  switch (op) {
+    case 'eq':
+      return whereEquals<T>(field, value);
+    case 'neq':
+      return not(whereEquals<T>(field, value));
+    case 'in':
+      return whereIn<T>(field, requireArray(condition));
+    case 'notIn':
+      return not(whereIn<T>(field, requireArray(condition)));
+    case 'exists':
+      return value === false ? not(whereExists<T>(field)) : whereExists<T>(field);
+    case 'contains':
+      return whereContains<T>(field, String(value ?? ''), caseSensitive);
+    case 'startsWith':
+      return whereStartsWith<T>(field, String(value ?? ''), caseSensitive);
+    case 'gt':
+      return whereGreaterThan<T>(field, requireNumber(condition, value));
+    case 'lt':
+      return whereLessThan<T>(field, requireNumber(condition, value));
+    case 'between': {
+      const [min, max] = requireArray(condition);
+      return whereBetween<T>(field, requireNumber(condition, min), requireNumber(condition, max));
+    }
+    case 'after':
+      return whereAfter<T>(field, requireDate(condition));
+    case 'before':
+      return whereBefore<T>(field, requireDate(condition));
+    case 'arrayContains':
+      return whereArrayContains<T>(field, value);
+    case 'arrayContainsAny':
+      return whereArrayContainsAny<T>(field, requireArray(condition));
+  }
+}
+
+/**
+ * Compile a sort description into a sort function
+ */
+export function compileSort<T extends CollectionKey>(sort: QuerySort): SortFn<T> {
+  if (typeof sort === 'string') {
+    return sortBy<T>(sort as FieldPath<EntryData<T>>, 'asc');
+  }
+  return sortBy<T>(sort.field as FieldPath<EntryData<T>>, sort.direction, {
+    nullsFirst: sort.nullsFirst,
+  });
+}
+
+/**
+ * Helper: Ensure every collection in the definition exists
+ */
+function assertKnownCollections(collections: string[]): void {
+  const known = getCollectionNames();
+  const unknown = collections.filter(c => !known.includes(c));
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Query definition references unknown collection(s): ${unknown.join(', ')}. ` +
+      `Available collections: ${known.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Helper: Require an array value for list operators
+ */
+function requireArray(condition: QueryCondition): any[] {
+  if (!Array.isArray(condition.value)) {
+    throw new Error(
+      `Query condition "${condition.field} ${condition.op}" expects an array value`
+    );
+  }
+  return condition.value;
+}
+
+/**
+ * Helper: Require a numeric value for comparison operators
+ */
+function requireNumber(condition: QueryCondition, value: unknown): number {
+  const num = Number(value);
+  if (value === undefined || value === null || Number.isNaN(num)) {
+    throw new Error(
+      `Query condition "${condition.field} ${condition.op}" expects a numeric value`
+    );
+  }
+  return num;
+}
+
+/**
+ * Helper: Require a date-like value for date operators
+ */
+function requireDate(condition: QueryCondition): Date | string {
+  const { value } = condition;
+  if (!(value instanceof Date) && typeof value !== 'string') {
+    throw new Error(
+      `Query condition "${condition.field} ${condition.op}" expects a date value`
+    );
+  }
+  if (Number.isNaN(new Date(value).getTime())) {
+    throw new Error(
+      `Query condition "${condition.field} ${condition.op}" has an invalid date: ${String(value)}`
+    );
+  }
+  return value;
+}
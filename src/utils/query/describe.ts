@@ -0,0 +1,102 @@
+// src/utils/query/describe.ts
+/**
+ * Function Descriptors
+ *
+ * Filter and sort helpers return plain closures, which are opaque.
+ * Helpers register a descriptor (name + arguments) for each closure they
+ * build, so queries can be hashed for caching and printed for debugging.
+ *
+ * Hand-written closures have no descriptor - anything relying on one
+ * (e.g. the query cache) simply skips those queries.
+ */
+
+/**
+ * Describes how a filter/sort function was built
+ */
+export interface FnDescriptor {
+  name: string;       // Helper name (e.g. 'whereEquals')
+  args: unknown[];    // Arguments, with nested functions replaced by descriptors
+}
+
+const descriptors = new WeakMap<Function, FnDescriptor>();
+
+/**
+ * Attach a descriptor to a function
+ *
+ * Function arguments (e.g. filters passed to and/or/not) are replaced with
+ * their own descriptors. If any of them is undescribed, so is the result.
+ *
+ * @returns The same function, for chaining
+ */
+export function describe<F extends Function>(fn: F, name: string, args: unknown[]): F {
+  const describedArgs: unknown[] = [];
+
+  for (const arg of args) {
+    if (typeof arg === 'function') {
+      const nested = descriptors.get(arg);
+      if (!nested) return fn;
+      describedArgs.push(nested);
+    } else {
+      describedArgs.push(arg);
+    }
+  }
+
+  descriptors.set(fn, { name, args: describedArgs });
+  return fn;
+}
+
+/**
+ * Get the descriptor of a function, if it was built by a helper
+ */
+export function getDescriptor(fn: Function): FnDescriptor | undefined {
+  return descriptors.get(fn);
+}
+
+/**
+ * Check if a value is a descriptor
+ */
+export function isDescriptor(value: unknown): value is FnDescriptor {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as FnDescriptor).name === 'string' &&
+    Array.isArray((value as FnDescriptor).args)
+  );
+}
+
+/**
+ * Format a descriptor for humans
+ *
+ * @example
+ * formatDescriptor({ name: 'whereEquals', args: ['author', 'jane-doe'] })
+ * // 'whereEquals(author, "jane-doe")'
+ */
+export function formatDescriptor(descriptor: FnDescriptor): string {
+  const args = descriptor.args.map((arg, i) => {
+    if (isDescriptor(arg)) return formatDescriptor(arg);
+    // First string argument is conventionally a field name - print bare
+    if (i === 0 && typeof arg === 'string') return arg;
+    return stableStringify(arg);
+  });
+
+  return `${descriptor.name}(${args.join(', ')})`;
+}
+
+/**
+ * Deterministic JSON serialization (sorted keys, Dates as ISO strings)
+ */
+export function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const keys = Object.keys(value as Record<string, unknown>).sort();
+  const body = keys.map(key =>
+    `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+  );
+  return `{${body.join(',')}}`;
+}
@@ -11,6 +11,7 @@ import {
   getAncestors,
   whereEquals,
   whereContains,
+  whereExists,
   sortByDate,
   sortBy,
   and,
@@ -40,7 +41,7 @@ async function basicQuery() {
 async function filteringExamples() {
   // Find posts by author
   const johnsPosts = await query('blog')
-    .where(whereEquals('author', 'john-doe'))
+    .where(whereEquals('author.id', 'john-doe'))
     .all();
   
   // Find posts containing "astro" in title
@@ -51,7 +52,7 @@ async function filteringExamples() {
   // Complex filter with AND logic
   const filteredPosts = await query('blog')
     .where(and(
-      whereEquals('status', 'published'),
+      whereExists('publishDate'),
       whereContains('title', 'tutorial')
     ))
     .all();
@@ -106,7 +107,7 @@ async function relationExamples() {
 async function advancedQuery() {
   // Query with relations included
   const result = await query('blog')
-    .where(whereEquals('status', 'published'))
+    .where(whereExists('publishDate'))
     .orderBy(sortByDate('publishDate', 'desc'))
     .limit(10)
     .withRelations(true, 2) // Include relations up to depth 2
@@ -162,7 +163,36 @@ async function paginationExample() {
     .offset((page - 1) * pageSize)
     .get();
   
-  console.log(`Page ${result.page} of ${Math.ceil(result.total / pageSize)}`);
+  console.log(`Page ${result.page} of ${result.totalPages}`);
   console.log(`Has next: ${result.hasNext}`);
   console.log(`Has previous: ${result.hasPrev}`);
+}
+
+/**
+ * Example 9: Cursor pagination and page routes
+ */
+async function cursorPaginationExample() {
+  const { paginate } = await import('@/utils/query');
+  
+  // Keyset pagination - cursors stay valid when entries are added
+  const firstPage = await query('blog')
+    .orderBy(sortByDate())
+    .limit(10)
+    .get();
+  
+  if (firstPage.nextCursor) {
+    const secondPage = await query('blog')
+      .orderBy(sortByDate())
+      .limit(10)
+      .after(firstPage.nextCursor)
+      .get();
+    console.log(`Second page: ${secondPage.entries.length} posts`);
+  }
+  
+  // All pages with URLs (/blog, /blog/page/2, ...)
+  const pages = await paginate(query('blog').orderBy(sortByDate()), {
+    pageSize: 10,
+    basePath: '/blog',
+  });
+  console.log(pages.map(p => p.url.current));
 }
\ No newline at end of file
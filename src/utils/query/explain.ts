@@ -0,0 +1,177 @@
+// src/utils/query/explain.ts
+/**
+ * Query Explain Output
+ *
+ * Labels and console output for Query.explain(). Labels are built from the
+ * helper descriptors (see describe.ts), with comparison helpers printed as
+ * `field op value`:
+ *
+ *   whereEquals(author.id = jane-doe): 42 → 7
+ *   and(whereArrayContains(tags has astro), whereExists(seo.metaTitle)): 7 → 3
+ */
+
+import type { CollectionKey } from 'astro:content';
+import type { FilterFn, QueryExplain, SortConfig, SortFn } from './types';
+import { getDescriptor, isDescriptor, stableStringify, type FnDescriptor } from './describe';
+
+/**
+ * Operators for helpers shaped (field, value)
+ */
+const OPERATORS: Record<string, string> = {
+  whereEquals: '=',
+  whereIn: 'in',
+  whereContains: 'contains',
+  whereStartsWith: 'starts with',
+  whereGreaterThan: '>',
+  whereLessThan: '<',
+  whereAfter: 'after',
+  whereBefore: 'before',
+  whereArrayContains: 'has',
+  whereArrayContainsAny: 'has any',
+};
+
+/**
+ * Row of the explain table
+ */
+export interface ExplainRow {
+  stage: string;
+  detail: string;
+  in: number | '';
+  out: number | '';
+  ms: number | '';
+}
+
+/**
+ * Format a descriptor as an explain label
+ *
+ * @example
+ * formatStep({ name: 'whereEquals', args: ['author.id', 'jane-doe'] })
+ * // 'whereEquals(author.id = jane-doe)'
+ */
+export function formatStep(descriptor: FnDescriptor): string {
+  const { name, args } = descriptor;
+  const operator = OPERATORS[name];
+
+  if (operator && typeof args[0] === 'string') {
+    return `${name}(${args[0]} ${operator} ${formatValue(args[1])})`;
+  }
+
+  const parts = args.map((arg, i) => {
+    if (isDescriptor(arg)) return formatStep(arg);
+    if (i === 0 && typeof arg === 'string') return arg;
+    return stableStringify(arg);
+  });
+  return `${name}(${parts.join(', ')})`;
+}
+
+/**
+ * Label a filter function (hand-written closures have no descriptor)
+ */
+export function getFilterLabel<T extends CollectionKey>(filter: FilterFn<T>): string {
+  const descriptor = getDescriptor(filter);
+  if (descriptor) return formatStep(descriptor);
+  return filter.name ? `${filter.name}()` : 'custom filter';
+}
+
+/**
+ * Label a sort function or config
+ */
+export function getSortLabel<T extends CollectionKey>(sort: SortFn<T> | SortConfig<T>): string {
+  if (typeof sort !== 'function') {
+    return formatStep({ name: 'sortBy', args: [sort.field, sort.direction] });
+  }
+  const descriptor = getDescriptor(sort);
+  if (descriptor) return formatStep(descriptor);
+  return sort.name ? `${sort.name}()` : 'custom sort';
+}
+
+/**
+ * Flatten an explain result into table rows (one per stage)
+ */
+export function getExplainRows(plan: QueryExplain): ExplainRow[] {
+  const { window, timings } = plan;
+  const rows: ExplainRow[] = [
+    {
+      stage: 'load',
+      detail: plan.collections.join(', '),
+      in: '',
+      out: plan.loaded,
+      ms: timings.load,
+    },
+  ];
+
+  for (const step of plan.filters) {
+    rows.push({ stage: 'filter', detail: step.label, in: step.before, out: step.after, ms: step.ms });
+  }
+
+  if (plan.sorts.length > 0) {
+    rows.push({ stage: 'sort', detail: plan.sorts.join(', '), in: plan.total, out: plan.total, ms: timings.sort });
+  }
+
+  const bounds = [
+    window.cursor ? `${window.cursor} cursor` : `offset ${window.offset}`,
+    window.limit !== undefined ? `limit ${window.limit}` : 'no limit',
+  ];
+  rows.push({
+    stage: 'paginate',
+    detail: `[${window.start}, ${window.end}) ${bounds.join(', ')}`,
+    in: plan.total,
+    out: plan.returned,
+    ms: timings.paginate,
+  });
+
+  if (plan.include.length > 0) {
+    rows.push({ stage: 'include', detail: plan.include.join(', '), in: plan.returned, out: plan.returned, ms: timings.include });
+  }
+
+  return rows;
+}
+
+/**
+ * Format an explain result as plain text
+ *
+ * @example
+ * console.log(formatExplain(await query('blog').where(...).explain()));
+ * // query(blog): 42 loaded → 7 matched → 5 returned in 3.2ms
+ * //   filter  whereEquals(author.id = jane-doe): 42 → 7  (0.1ms)
+ */
+export function formatExplain(plan: QueryExplain): string {
+  const lines = [
+    `query(${plan.collections.join(', ')}): ${plan.loaded} loaded → ${plan.total} matched → ` +
+    `${plan.returned} returned in ${plan.timings.total}ms`,
+  ];
+
+  for (const row of getExplainRows(plan)) {
+    const counts = row.in === '' ? ` ${row.out}` : `: ${row.in} → ${row.out}`;
+    lines.push(`  ${row.stage.padEnd(8)} ${row.detail}${counts}  (${row.ms}ms)`);
+  }
+
+  if (!plan.cacheKey) {
+    lines.push('  (not cached: a filter or sort is a hand-written closure)');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Print an explain result as a console table
+ *
+ * @param plan - Result of Query.explain()
+ * @param title - Heading (e.g. the section or page using the query)
+ */
+export function logExplain(plan: QueryExplain, title?: string): void {
+  const heading = `[query] ${title ? `${title}: ` : ''}` +
+    `${plan.loaded} loaded → ${plan.total} matched → ${plan.returned} returned (${plan.timings.total}ms)`;
+
+  console.log(heading);
+  console.table(getExplainRows(plan));
+}
+
+/**
+ * Helper: Print a value bare when it is a plain string
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  return stableStringify(value);
+}
@@ -0,0 +1,80 @@
+// src/utils/query/fieldPath.ts
+/**
+ * Field Path Resolution
+ *
+ * Resolves dotted paths with optional array indexes against entry data,
+ * shared by filters, sorting, cursors and aggregates.
+ *
+ *   'title'             → data.title
+ *   'seo.metaTitle'     → data.seo.metaTitle
+ *   'social.github'     → data.social.github
+ *   'tags[0]' / 'tags.0' → data.tags[0]
+ */
+
+const parsedPaths = new Map<string, Array<string | number>>();
+
+/**
+ * Split a field path into property names and array indexes
+ *
+ * @example
+ * parseFieldPath('gallery[2].alt') // ['gallery', 2, 'alt']
+ */
+export function parseFieldPath(path: string): Array<string | number> {
+  let segments = parsedPaths.get(path);
+  if (segments) return segments;
+
+  segments = [];
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match) {
+      throw new Error(`Invalid field path "${path}"`);
+    }
+
+    const [, name, indexes] = match;
+    if (name) segments.push(/^\d+$/.test(name) ? Number(name) : name);
+    for (const index of indexes.matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+
+  parsedPaths.set(path, segments);
+  return segments;
+}
+
+/**
+ * Read a value by field path (undefined if any step is missing)
+ *
+ * @example
+ * getFieldValue(entry.data, 'seo.metaTitle')
+ */
+export function getFieldValue(data: unknown, path: string): any {
+  if (!path.includes('.') && !path.includes('[')) {
+    return data == null ? undefined : (data as any)[path];
+  }
+
+  let value: any = data;
+  for (const segment of parseFieldPath(path)) {
+    if (value == null) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Write a value by field path, creating intermediate objects/arrays
+ */
+export function setFieldValue(data: Record<string, any>, path: string, value: unknown): void {
+  const segments = parseFieldPath(path);
+  let target: any = data;
+
+  segments.forEach((segment, i) => {
+    if (i === segments.length - 1) {
+      target[segment] = value;
+      return;
+    }
+    if (target[segment] == null) {
+      target[segment] = typeof segments[i + 1] === 'number' ? [] : {};
+    }
+    target = target[segment];
+  });
+}
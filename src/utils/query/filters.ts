@@ -3,173 +3,461 @@
  * Filtering Utilities
  * 
  * Type-safe filtering functions for query operations.
+ * Field names accept dotted paths and array indexes ('seo.metaTitle', 'tags[0]').
+ *
+ * Fields and values are checked against the collection schema: inside
+ * query('blog').where(...) the collection is inferred, so whereEquals('autor', x)
+ * is a compile error. Standalone filters accept fields of any collection.
  */
 
 import type { CollectionEntry, CollectionKey } from 'astro:content';
-import type { FilterFn } from './types';
+import type {
+  EntryData,
+  EntryReference,
+  FieldElement,
+  FieldPath,
+  FieldValue,
+  FilterFn,
+  PathOptions,
+  Relation,
+  RelationMap,
+  RelationshipGraph,
+} from './types';
+import { getEntryKey } from './types';
+import { describe } from './describe';
+import { getFieldValue } from './fieldPath';
+import { getOrBuildGraph, getLoadedGraph } from './graph';
+import { getQueryKey, normalizeId } from './helpers';
+import { getConnections } from './paths';
+import { isParentField } from './schema';
+import { tokenize } from '@/utils/search/text';
+import { rankDocuments } from '@/utils/search/bm25';
+import { analyzeEntry } from '@/utils/search/entries';
+import { type PublishStatus, getPublishStatus } from '@/utils/publishing';
+
+/**
+ * Ranking hooks for relevance filters (see whereMatches)
+ * Called by applyFilters with the candidate entries before filtering.
+ */
+type Ranker = (entries: CollectionEntry<CollectionKey>[]) => Map<object, number>;
+const rankers = new WeakMap<Function, Ranker>();
 
 /**
  * Create a filter for a specific field value
  */
-export function whereEquals<T extends CollectionKey>(
-  field: string,
-  value: any
+export function whereEquals<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
+  value: FieldValue<EntryData<T>, P>
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    return data[field] === value;
-  };
+  return describe((entry: CollectionEntry<T>) => {
+    return getFieldValue(entry.data, field) === value;
+  }, 'whereEquals', [field, value]);
 }
 
 /**
  * Create a filter for field existence
  */
-export function whereExists<T extends CollectionKey>(field: string): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    return data[field] !== undefined && data[field] !== null;
-  };
+export function whereExists<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(field: P): FilterFn<T> {
+  return describe((entry: CollectionEntry<T>) => {
+    const fieldValue = getFieldValue(entry.data, field);
+    return fieldValue !== undefined && fieldValue !== null;
+  }, 'whereExists', [field]);
 }
 
 /**
  * Create a filter for field value in array
  */
-export function whereIn<T extends CollectionKey>(
-  field: string,
-  values: any[]
+export function whereIn<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
+  values: Array<FieldValue<EntryData<T>, P>>
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    return values.includes(data[field]);
-  };
+  return describe((entry: CollectionEntry<T>) => {
+    return values.includes(getFieldValue(entry.data, field));
+  }, 'whereIn', [field, values]);
 }
 
 /**
  * Create a filter for string contains
  */
-export function whereContains<T extends CollectionKey>(
-  field: string,
+export function whereContains<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   substring: string,
   caseSensitive: boolean = false
 ): FilterFn<T> {
   const search = caseSensitive ? substring : substring.toLowerCase();
   
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const value = String(data[field] || '');
+  return describe((entry: CollectionEntry<T>) => {
+    const value = String(getFieldValue(entry.data, field) || '');
     const target = caseSensitive ? value : value.toLowerCase();
     return target.includes(search);
-  };
+  }, 'whereContains', [field, substring, caseSensitive]);
 }
 
 /**
  * Create a filter for string starts with
  */
-export function whereStartsWith<T extends CollectionKey>(
-  field: string,
+export function whereStartsWith<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   prefix: string,
   caseSensitive: boolean = false
 ): FilterFn<T> {
   const search = caseSensitive ? prefix : prefix.toLowerCase();
   
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const value = String(data[field] || '');
+  return describe((entry: CollectionEntry<T>) => {
+    const value = String(getFieldValue(entry.data, field) || '');
     const target = caseSensitive ? value : value.toLowerCase();
     return target.startsWith(search);
-  };
+  }, 'whereStartsWith', [field, prefix, caseSensitive]);
 }
 
 /**
  * Create a filter for numeric comparison
  */
-export function whereGreaterThan<T extends CollectionKey>(
-  field: string,
+export function whereGreaterThan<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   value: number
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    return Number(data[field]) > value;
-  };
+  return describe((entry: CollectionEntry<T>) => {
+    return Number(getFieldValue(entry.data, field)) > value;
+  }, 'whereGreaterThan', [field, value]);
 }
 
-export function whereLessThan<T extends CollectionKey>(
-  field: string,
+export function whereLessThan<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   value: number
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    return Number(data[field]) < value;
-  };
+  return describe((entry: CollectionEntry<T>) => {
+    return Number(getFieldValue(entry.data, field)) < value;
+  }, 'whereLessThan', [field, value]);
 }
 
-export function whereBetween<T extends CollectionKey>(
-  field: string,
+export function whereBetween<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   min: number,
   max: number
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const value = Number(data[field]);
+  return describe((entry: CollectionEntry<T>) => {
+    const value = Number(getFieldValue(entry.data, field));
     return value >= min && value <= max;
-  };
+  }, 'whereBetween', [field, min, max]);
 }
 
 /**
  * Create a filter for date comparison
  */
-export function whereAfter<T extends CollectionKey>(
-  field: string,
+export function whereAfter<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   date: Date | string
 ): FilterFn<T> {
   const compareDate = new Date(date);
   
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const entryDate = new Date(data[field]);
+  return describe((entry: CollectionEntry<T>) => {
+    const entryDate = new Date(getFieldValue(entry.data, field));
     return entryDate > compareDate;
-  };
+  }, 'whereAfter', [field, date]);
 }
 
-export function whereBefore<T extends CollectionKey>(
-  field: string,
+export function whereBefore<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
   date: Date | string
 ): FilterFn<T> {
   const compareDate = new Date(date);
   
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const entryDate = new Date(data[field]);
+  return describe((entry: CollectionEntry<T>) => {
+    const entryDate = new Date(getFieldValue(entry.data, field));
     return entryDate < compareDate;
-  };
+  }, 'whereBefore', [field, date]);
 }
 
 /**
  * Create a filter for array field contains value
  */
-export function whereArrayContains<T extends CollectionKey>(
-  field: string,
-  value: any
+export function whereArrayContains<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
+  value: FieldElement<EntryData<T>, P>
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const arr = data[field];
+  return describe((entry: CollectionEntry<T>) => {
+    const arr = getFieldValue(entry.data, field);
     return Array.isArray(arr) && arr.includes(value);
-  };
+  }, 'whereArrayContains', [field, value]);
 }
 
 /**
  * Create a filter for array field contains any of values
  */
-export function whereArrayContainsAny<T extends CollectionKey>(
-  field: string,
-  values: any[]
+export function whereArrayContainsAny<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
+  values: Array<FieldElement<EntryData<T>, P>>
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
-    const data = entry.data as any;
-    const arr = data[field];
+  return describe((entry: CollectionEntry<T>) => {
+    const arr = getFieldValue(entry.data, field);
     return Array.isArray(arr) && arr.some(item => values.includes(item));
-  };
+  }, 'whereArrayContainsAny', [field, values]);
+}
+
+/**
+ * Create a filter for publication status (draft, scheduled, expired, published)
+ * Queries skip unpublished entries unless withUnpublished() is called.
+ *
+ * @example
+ * query('blog').withUnpublished().where(whereStatus('draft', 'scheduled'))
+ */
+export function whereStatus<T extends CollectionKey>(...statuses: PublishStatus[]): FilterFn<T> {
+  return describe((entry: CollectionEntry<T>) => {
+    return statuses.includes(getPublishStatus(entry.data));
+  }, 'whereStatus', statuses);
+}
+
+/**
+ * Create a full-text filter ranked with BM25
+ *
+ * Matches entries whose title, description, tags or body text contain any
+ * query term. When used as a top-level filter, applyFilters also scores every
+ * candidate entry against the others and returns matches by descending
+ * relevance; explicit orderBy() sorts still take precedence, with relevance
+ * breaking ties. Nested inside and/or/not, matches are unranked. The filter
+ * keeps no state, so it can be reused across queries.
+ *
+ * @param text - Search text (an empty query matches everything)
+ * @example
+ * query('blog').where(whereMatches('astro islands')).limit(5).get()
+ */
+export function whereMatches<T extends CollectionKey>(text: string): FilterFn<T> {
+  const terms = tokenize(text);
+  
+  const filter = describe((entry: CollectionEntry<T>) => {
+    if (terms.length === 0) return true;
+    const doc = analyzeEntry(entry);
+    return terms.some(term => doc.terms.has(term));
+  }, 'whereMatches', [text]);
+  
+  rankers.set(filter, (entries: CollectionEntry<CollectionKey>[]) => {
+    const ranked = rankDocuments(entries.map(analyzeEntry), terms);
+    return new Map<object, number>(entries.map((entry, i) => [entry, ranked[i]]));
+  });
+  
+  return filter;
+}
+
+/**
+ * Filters that read the relationship graph (see prepareFilters)
+ * Combinators inherit the requirement from their children.
+ */
+const graphFilters = new WeakSet<Function>();
+
+/**
+ * Helper: Mark a filter as needing the graph if any child does
+ */
+function inheritGraphRequirement(filter: Function, children: Function[]): void {
+  if (children.some(child => graphFilters.has(child))) {
+    graphFilters.add(filter);
+  }
+}
+
+/**
+ * Helper: Get the loaded graph or explain how to load it
+ */
+function requireGraph(filterName: string): RelationshipGraph {
+  const graph = getLoadedGraph();
+  if (!graph) {
+    throw new Error(
+      `${filterName}() needs the relationship graph. ` +
+      `Use it in a Query, or await prepareFilters() before applyFilters().`
+    );
+  }
+  return graph;
+}
+
+/**
+ * Helper: Get the graph node of an entry
+ */
+function getNode(
+  graph: RelationshipGraph,
+  entry: CollectionEntry<CollectionKey>
+): RelationMap | undefined {
+  return graph.nodes.get(entry.collection)?.get(getQueryKey(entry));
+}
+
+/**
+ * Create a filter on the entries referenced by a field
+ *
+ * Parent fields follow the hierarchy parent; other fields follow direct
+ * references. Entries referencing nothing through the field never match.
+ *
+ * @param field - Reference field on this entry (e.g. 'author')
+ * @param filter - Condition the referenced entry must meet
+ * @param options - 'any' (default): one referenced entry must match; 'all': every one
+ * @example
+ * // Posts by staff authors
+ * query('blog').where(whereRelated('author', whereEquals('role', 'Editor')))
+ */
+export function whereRelated<
+  T extends CollectionKey,
+  R extends CollectionKey = CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
+  filter: FilterFn<R>,
+  options: { match?: 'any' | 'all' } = {}
+): FilterFn<T> {
+  const { match = 'any' } = options;
+  const matches = filter as FilterFn<CollectionKey>;
+  
+  const related = describe((entry: CollectionEntry<T>) => {
+    const graph = requireGraph('whereRelated');
+    const node = getNode(graph, entry);
+    if (!node) return false;
+    
+    const relations: Relation[] = isParentField(field)
+      ? (node.parent ? [node.parent] : [])
+      : node.references.filter(rel => rel.field === field);
+    
+    const targets = relations
+      .map(rel => graph.nodes.get(rel.collection)?.get(rel.id)?.entry)
+      .filter((target): target is CollectionEntry<CollectionKey> => !!target);
+    
+    if (targets.length === 0) return false;
+    return match === 'all' ? targets.every(matches) : targets.some(matches);
+  }, 'whereRelated', [field, filter, { match }]);
+  
+  graphFilters.add(related);
+  return related;
+}
+
+/**
+ * Create a filter on how many entries reference this one
+ *
+ * @param collection - Collection of the referencing entries
+ * @param field - Reference field on the referencing entries
+ * @param options - Count bounds (min defaults to 1) and an optional condition
+ *                  the referencing entries must meet to be counted
+ * @example
+ * // Authors with at least 3 posts
+ * query('authors').where(whereHasReferences('blog', 'author', { min: 3 }))
+ *
+ * // Authors with a post tagged "astro"
+ * query('authors').where(whereHasReferences('blog', 'author', {
+ *   where: whereArrayContains('tags', 'astro'),
+ * }))
+ */
+export function whereHasReferences<T extends CollectionKey, C extends CollectionKey>(
+  collection: C,
+  field: FieldPath<EntryData<C>>,
+  options: { min?: number; max?: number; where?: FilterFn<C> } = {}
+): FilterFn<T> {
+  const { min = 1, max } = options;
+  const where = options.where as FilterFn<CollectionKey> | undefined;
+  
+  const filter = describe((entry: CollectionEntry<T>) => {
+    const graph = requireGraph('whereHasReferences');
+    const node = getNode(graph, entry);
+    if (!node) return min <= 0;
+    
+    const sources = isParentField(field)
+      ? node.children.filter(rel => rel.collection === collection)
+      : node.referencedBy.filter(rel => rel.collection === collection && rel.field === field);
+    
+    const total = where
+      ? sources.filter(rel => {
+          const source = graph.nodes.get(rel.collection)?.get(rel.id)?.entry;
+          return !!source && where(source);
+        }).length
+      : sources.length;
+    
+    return total >= min && (max === undefined || total <= max);
+  }, 'whereHasReferences', [collection, field, { min, max }, ...(where ? [where] : [])]);
+  
+  graphFilters.add(filter);
+  return filter;
+}
+
+/**
+ * Create a filter for entries connected to an entry within a number of hops
+ *
+ * Links are followed in both directions (references, reverse references,
+ * parents and children). The entry itself never matches.
+ *
+ * @param entryRef - Entry to measure from (reference or entry)
+ * @param depth - Max hops (default 2)
+ * @param options - Collections intermediate entries may belong to
+ * @example
+ * // Testimonials within two hops of a service
+ * query('testimonials').where(whereConnectedTo({ collection: 'services', id: 'web-development' }))
+ *
+ * // Posts sharing an author with this one
+ * query('blog').where(whereConnectedTo(post, 2, { via: ['authors'] }))
+ */
+export function whereConnectedTo<T extends CollectionKey>(
+  entryRef: EntryReference,
+  depth: number = 2,
+  options: Pick<PathOptions, 'via'> = {}
+): FilterFn<T> {
+  const start = getEntryKey(entryRef.collection, normalizeId(entryRef.id));
+  // Recomputed when the graph is replaced or patched (dev content edits)
+  const connections = new WeakMap<RelationshipGraph, { version: number; keys: Map<string, number> }>();
+  
+  const filter = describe((entry: CollectionEntry<T>) => {
+    const graph = requireGraph('whereConnectedTo');
+    let cached = connections.get(graph);
+    if (!cached || cached.version !== graph.version) {
+      cached = { version: graph.version, keys: getConnections(graph, start, { ...options, maxDepth: depth }) };
+      connections.set(graph, cached);
+    }
+    return cached.keys.has(getEntryKey(entry.collection, getQueryKey(entry)));
+  }, 'whereConnectedTo', [start, depth, ...(options.via ? [{ via: options.via }] : [])]);
+  
+  graphFilters.add(filter);
+  return filter;
+}
+
+/**
+ * Load whatever the given filters need before they run synchronously
+ * Query does this automatically; call it yourself before applyFilters().
+ */
+export async function prepareFilters<T extends CollectionKey>(
+  filters: FilterFn<T> | FilterFn<T>[]
+): Promise<void> {
+  const filterArray = Array.isArray(filters) ? filters : [filters];
+  
+  if (filterArray.some(filter => graphFilters.has(filter))) {
+    await getOrBuildGraph();
+  }
 }
 
 /**
@@ -178,23 +466,29 @@ export function whereArrayContainsAny<T extends CollectionKey>(
 export function and<T extends CollectionKey>(
   ...filters: FilterFn<T>[]
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
+  const combined = describe((entry: CollectionEntry<T>) => {
     return filters.every(filter => filter(entry));
-  };
+  }, 'and', filters);
+  inheritGraphRequirement(combined, filters);
+  return combined;
 }
 
 export function or<T extends CollectionKey>(
   ...filters: FilterFn<T>[]
 ): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
+  const combined = describe((entry: CollectionEntry<T>) => {
     return filters.some(filter => filter(entry));
-  };
+  }, 'or', filters);
+  inheritGraphRequirement(combined, filters);
+  return combined;
 }
 
 export function not<T extends CollectionKey>(filter: FilterFn<T>): FilterFn<T> {
-  return (entry: CollectionEntry<T>) => {
+  const negated = describe((entry: CollectionEntry<T>) => {
     return !filter(entry);
-  };
+  }, 'not', [filter]);
+  inheritGraphRequirement(negated, [filter]);
+  return negated;
 }
 
 /**
@@ -206,7 +500,20 @@ export function applyFilters<T extends CollectionKey>(
 ): CollectionEntry<T>[] {
   const filterArray = Array.isArray(filters) ? filters : [filters];
   
-  return entries.filter(entry => {
+  // Score relevance filters against the full candidate set first
+  // (rankings live only for this call; the filters themselves stay stateless)
+  const rankings = filterArray
+    .map(filter => rankers.get(filter)?.(entries as CollectionEntry<CollectionKey>[]))
+    .filter((ranking): ranking is Map<object, number> => !!ranking);
+  
+  const filtered = entries.filter(entry => {
     return filterArray.every(filter => filter(entry));
   });
+  
+  if (rankings.length === 0) return filtered;
+  
+  const relevance = (entry: object) =>
+    rankings.reduce((sum, ranking) => sum + (ranking.get(entry) ?? 0), 0);
+  
+  return filtered.sort((a, b) => relevance(b) - relevance(a));
 }
\ No newline at end of file
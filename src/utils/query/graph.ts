@@ -4,11 +4,18 @@
  * 
  * Builds a complete relationship graph for all content collections.
  * Handles direct references, hierarchical relations, and indirect connections.
+ * 
+ * In dev, content edits patch the cached graph entry by entry (see syncGraph)
+ * instead of rebuilding it.
+ * 
+ * Unpublished entries (drafts, scheduled, expired) are left out unless preview
+ * mode is on, so hierarchy, relation and path helpers never expose them.
  */
 
 import { getCollection } from 'astro:content';
 import type { CollectionEntry, CollectionKey } from 'astro:content';
 import { getCollectionNames } from '@/utils/collections';
+import { isPublished } from '@/utils/publishing';
 import { 
   type RelationshipGraph, 
   type RelationMap, 
@@ -17,8 +24,32 @@ import {
   getEntryKey,
   parseEntryKey,
 } from './types';
-import { extractRelationConfig, normalizeReference, isParentField } from './schema';
+import { getRelationConfig, getFieldReferences, isParentField, getParentReference } from './schema';
 import { getQueryKey, normalizeId } from './helpers';
+import { clearQueryCache } from './cache';
+import { stableStringify } from './describe';
+import { getGraphState } from './graphState';
+import { validateGraph, reportGraphValidation } from './validation';
+
+/**
+ * Entries added, updated and removed by an incremental update (entry keys)
+ */
+export interface GraphChanges {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+/**
+ * Indirect relation settings a graph was built with
+ * Incremental updates recompute indirect relations the same way.
+ */
+interface IndirectSettings {
+  includeIndirect: boolean;
+  maxIndirectDepth: number;
+}
+
+const indirectSettings = new WeakMap<RelationshipGraph, IndirectSettings>();
 
 /**
  * Build the complete relationship graph
@@ -31,6 +62,7 @@ export async function buildRelationshipGraph(
     includeIndirect = true,
     maxIndirectDepth = 3,
     cache = true,
+    validate = true,
   } = options;
   
   // Initialize graph
@@ -43,7 +75,10 @@ export async function buildRelationshipGraph(
     },
     collections: collections as CollectionKey[],
     totalEntries: 0,
+    unpublished: new Set(),
+    version: 0,
   };
+  indirectSettings.set(graph, { includeIndirect, maxIndirectDepth });
   
   // Phase 1: Load all entries and create base nodes
   console.log('📊 Building relationship graph...');
@@ -65,6 +100,11 @@ export async function buildRelationshipGraph(
   
   console.log(`✅ Graph built: ${graph.totalEntries} entries, ${graph.collections.length} collections`);
   
+  // Phase 5: Integrity report (errors fail the build; dev only logs them)
+  if (validate) {
+    reportGraphValidation(await validateGraph(graph), { throwOnError: !import.meta.env.DEV });
+  }
+  
   return graph;
 }
 
@@ -76,97 +116,146 @@ async function loadAllEntries(
   collections: CollectionKey[]
 ): Promise<void> {
   for (const collection of collections) {
-    const entries = await getCollection(collection);
-    const collectionMap = new Map<string, RelationMap>();
-    const idSet = new Set<string>();
+    graph.nodes.set(collection, new Map());
+    graph.indexes.byCollection.set(collection, new Set());
     
+    const entries = await loadGraphEntries(graph, collection);
     for (const entry of entries) {
-      // Use getQueryKey for consistent ID handling
-      const id = getQueryKey(entry);
-      const key = getEntryKey(collection, id);
-      
-      // Create base relation map
-      const relationMap: RelationMap = {
-        entry,
-        references: [],
-        referencedBy: [],
-        parent: undefined,
-        children: [],
-        siblings: [],
-        ancestors: [],
-        descendants: [],
-        indirect: [],
-        depth: 0,
-        hasChildren: false,
-        isRoot: true,
-        isLeaf: true,
-      };
-      
-      collectionMap.set(id, relationMap);
-      idSet.add(id);
-      graph.totalEntries++;
+      addNode(graph, entry);
     }
-    
-    graph.nodes.set(collection, collectionMap);
-    graph.indexes.byCollection.set(collection, idSet);
   }
 }
 
+/**
+ * Helper: Load the entries of a collection that belong in the graph
+ * Unpublished entries are skipped and remembered in graph.unpublished.
+ */
+async function loadGraphEntries(
+  graph: RelationshipGraph,
+  collection: CollectionKey
+): Promise<CollectionEntry<CollectionKey>[]> {
+  const entries = await getCollection(collection);
+  
+  return entries.filter(entry => {
+    if (isPublished(entry.data)) return true;
+    graph.unpublished.add(getEntryKey(collection, getQueryKey(entry)));
+    return false;
+  });
+}
+
+/**
+ * Helper: Create a node without relations
+ */
+function addNode(
+  graph: RelationshipGraph,
+  entry: CollectionEntry<CollectionKey>
+): RelationMap {
+  // Use getQueryKey for consistent ID handling
+  const id = getQueryKey(entry);
+  
+  // Create base relation map
+  const relationMap: RelationMap = {
+    entry,
+    references: [],
+    referencedBy: [],
+    inverse: {},
+    parent: undefined,
+    children: [],
+    siblings: [],
+    ancestors: [],
+    descendants: [],
+    indirect: [],
+    depth: 0,
+    hasChildren: false,
+    isRoot: true,
+    isLeaf: true,
+  };
+  
+  graph.nodes.get(entry.collection)!.set(id, relationMap);
+  graph.indexes.byCollection.get(entry.collection)!.add(id);
+  graph.totalEntries++;
+  
+  return relationMap;
+}
+
 /**
  * Phase 2: Build direct reference relationships
  */
 async function buildDirectReferences(graph: RelationshipGraph): Promise<void> {
   for (const [collection, collectionMap] of graph.nodes) {
     for (const [id, relationMap] of collectionMap) {
-      const entry = relationMap.entry;
-      const data = entry.data as any;
+      linkReferences(graph, collection as CollectionKey, id, relationMap);
+    }
+  }
+}
+
+/**
+ * Helper: Add an entry's outgoing references (and the reverse links)
+ */
+function linkReferences(
+  graph: RelationshipGraph,
+  collection: CollectionKey,
+  id: string,
+  relationMap: RelationMap
+): void {
+  const data = relationMap.entry.data as any;
+  
+  // Declared relation fields, or fields holding references
+  const relationConfigs = getRelationConfig(collection, data);
+  
+  for (const config of relationConfigs) {
+    // Skip parent fields (handled in hierarchy phase)
+    if (isParentField(config.field)) continue;
+    
+    const refs = getFieldReferences(config, data[config.field]);
+    
+    for (const ref of refs) {
+      // Normalize the reference ID
+      const refId = normalizeId(ref.id);
       
-      // Extract all relation fields
-      const relationConfigs = extractRelationConfig(data);
+      // Add forward reference
+      relationMap.references.push({
+        type: 'reference',
+        collection: ref.collection,
+        id: refId,
+        field: config.field,
+        inverse: config.inverse,
+      });
       
-      for (const config of relationConfigs) {
-        // Skip parent fields (handled in hierarchy phase)
-        if (isParentField(config.field)) continue;
-        
-        const refs = normalizeReference(data[config.field]);
-        
-        for (const ref of refs) {
-          // Normalize the reference ID
-          const refId = normalizeId(ref.id);
-          
-          // Add forward reference
-          relationMap.references.push({
-            type: 'reference',
-            collection: ref.collection,
-            id: refId,
-            field: config.field,
-          });
-          
-          // Add reverse reference
-          const targetMap = graph.nodes.get(ref.collection)?.get(refId);
-          if (targetMap) {
-            targetMap.referencedBy.push({
-              type: 'referenced-by',
-              collection: collection as CollectionKey,
-              id,
-              field: config.field,
-            });
-          }
-          
-          // Index reference
-          const refKey = getEntryKey(ref.collection, refId);
-          const entryKey = getEntryKey(collection as CollectionKey, id);
-          
-          if (!graph.indexes.byReference.has(refKey)) {
-            graph.indexes.byReference.set(refKey, new Set());
-          }
-          graph.indexes.byReference.get(refKey)!.add(entryKey);
-        }
+      // Add reverse reference
+      const targetMap = graph.nodes.get(ref.collection)?.get(refId);
+      if (targetMap) {
+        addReverseReference(targetMap, {
+          type: 'referenced-by',
+          collection,
+          id,
+          field: config.field,
+          inverse: config.inverse,
+        });
+      }
+      
+      // Index reference
+      const refKey = getEntryKey(ref.collection, refId);
+      const entryKey = getEntryKey(collection, id);
+      
+      if (!graph.indexes.byReference.has(refKey)) {
+        graph.indexes.byReference.set(refKey, new Set());
       }
+      graph.indexes.byReference.get(refKey)!.add(entryKey);
     }
   }
 }
 
+/**
+ * Helper: Record a reverse reference, under its inverse name if declared
+ */
+function addReverseReference(targetMap: RelationMap, rel: Relation): void {
+  targetMap.referencedBy.push(rel);
+  if (rel.inverse) {
+    (targetMap.inverse[rel.inverse] ??= []).push(rel);
+  }
+}
+
 /**
  * Phase 3: Build hierarchical relationships (parent-child)
  */
@@ -174,61 +263,101 @@ async function buildHierarchy(graph: RelationshipGraph): Promise<void> {
   // First pass: establish parent-child links
   for (const [collection, collectionMap] of graph.nodes) {
     for (const [id, relationMap] of collectionMap) {
-      const data = relationMap.entry.data as any;
-      const parentRef = normalizeReference(data.parent)[0];
-      
-      if (parentRef && parentRef.collection === collection) {
-        const parentId = normalizeId(parentRef.id);
-        const parentMap = collectionMap.get(parentId);
-        
-        if (parentMap) {
-          // Set parent
-          relationMap.parent = {
-            type: 'parent',
-            collection: collection as CollectionKey,
-            id: parentId,
-          };
-          
-          // Add child to parent
-          parentMap.children.push({
-            type: 'child',
-            collection: collection as CollectionKey,
-            id,
-          });
-          
-          relationMap.isRoot = false;
-          parentMap.hasChildren = true;
-          parentMap.isLeaf = false;
-          
-          // Index parent relationship
-          const parentKey = getEntryKey(collection as CollectionKey, parentId);
-          if (!graph.indexes.byParent.has(parentKey)) {
-            graph.indexes.byParent.set(parentKey, new Set());
-          }
-          graph.indexes.byParent.get(parentKey)!.add(id);
-        }
-      }
+      linkParent(graph, collection as CollectionKey, id, relationMap);
     }
   }
   
   // Second pass: calculate depth and find ancestors/descendants
-  for (const [collection, collectionMap] of graph.nodes) {
+  for (const [, collectionMap] of graph.nodes) {
     for (const [id, relationMap] of collectionMap) {
-      // Calculate depth and ancestors
-      calculateAncestors(relationMap, collectionMap);
-      
-      // Calculate descendants
-      calculateDescendants(relationMap, collectionMap);
-      
-      // Find siblings
-      if (relationMap.parent) {
-        const parentMap = collectionMap.get(relationMap.parent.id);
-        if (parentMap) {
-          relationMap.siblings = parentMap.children.filter(
-            child => child.id !== id
-          );
-        }
-      }
+      calculateHierarchy(graph, id, relationMap);
+    }
+  }
+}
+
+/**
+ * Helper: Get the parent an entry declares (possibly in another collection)
+ */
+function getDeclaredParent(
+  relationMap: RelationMap,
+  collection: CollectionKey
+): { collection: CollectionKey; id: string } | undefined {
+  const parentRef = getParentReference(relationMap.entry.data as any, collection);
+  return parentRef && { collection: parentRef.collection, id: normalizeId(parentRef.id) };
+}
+
+/**
+ * Helper: Look up the node a hierarchy relation points to
+ */
+function getNode(graph: RelationshipGraph, rel: Relation): RelationMap | undefined {
+  return graph.nodes.get(rel.collection)?.get(rel.id);
+}
+
+/**
+ * Helper: Link an entry to its parent, if the parent exists
+ */
+function linkParent(
+  graph: RelationshipGraph,
+  collection: CollectionKey,
+  id: string,
+  relationMap: RelationMap
+): void {
+  const declared = getDeclaredParent(relationMap, collection);
+  if (!declared) return;
+  
+  const parentMap = graph.nodes.get(declared.collection)?.get(declared.id);
+  if (!parentMap || parentMap === relationMap) return;
+  
+  // Set parent
+  relationMap.parent = {
+    type: 'parent',
+    collection: declared.collection,
+    id: declared.id,
+  };
+  
+  // Add child to parent
+  parentMap.children.push({
+    type: 'child',
+    collection,
+    id,
+  });
+  
+  relationMap.isRoot = false;
+  parentMap.hasChildren = true;
+  parentMap.isLeaf = false;
+  
+  // Index parent relationship
+  const parentKey = getEntryKey(declared.collection, declared.id);
+  if (!graph.indexes.byParent.has(parentKey)) {
+    graph.indexes.byParent.set(parentKey, new Set());
+  }
+  graph.indexes.byParent.get(parentKey)!.add(getEntryKey(collection, id));
+}
+
+/**
+ * Helper: Calculate depth, ancestors, descendants and siblings of a node
+ */
+function calculateHierarchy(
+  graph: RelationshipGraph,
+  id: string,
+  relationMap: RelationMap
+): void {
+  const collection = relationMap.entry.collection;
+  
+  // Calculate depth and ancestors
+  calculateAncestors(relationMap, graph);
+  
+  // Calculate descendants
+  calculateDescendants(relationMap, graph);
+  
+  // Find siblings
+  relationMap.siblings = [];
+  if (relationMap.parent) {
+    const parentMap = getNode(graph, relationMap.parent);
+    if (parentMap) {
+      relationMap.siblings = parentMap.children.filter(
+        child => !(child.id === id && child.collection === collection)
+      );
     }
   }
 }
@@ -238,13 +367,18 @@ async function buildHierarchy(graph: RelationshipGraph): Promise<void> {
  */
 function calculateAncestors(
   relationMap: RelationMap,
-  collectionMap: Map<string, RelationMap>
+  graph: RelationshipGraph
 ): void {
   const ancestors: Relation[] = [];
+  const visited = new Set<RelationMap>([relationMap]);
   let depth = 0;
   let current = relationMap.parent;
   
   while (current) {
+    const parentMap = getNode(graph, current);
+    // Stop at parent cycles
+    if (parentMap && visited.has(parentMap)) break;
+    
     depth++;
     ancestors.push({
       ...current,
@@ -252,7 +386,7 @@ function calculateAncestors(
       depth,
     });
     
-    const parentMap = collectionMap.get(current.id);
+    if (parentMap) visited.add(parentMap);
     current = parentMap?.parent;
   }
   
@@ -265,19 +399,24 @@ function calculateAncestors(
  */
 function calculateDescendants(
   relationMap: RelationMap,
-  collectionMap: Map<string, RelationMap>
+  graph: RelationshipGraph
 ): void {
   const descendants: Relation[] = [];
+  const visited = new Set<RelationMap>([relationMap]);
   
   function traverse(childIds: Relation[], depth: number): void {
     for (const child of childIds) {
+      const childMap = getNode(graph, child);
+      // Stop at parent cycles
+      if (childMap && visited.has(childMap)) continue;
+      if (childMap) visited.add(childMap);
+      
       descendants.push({
         ...child,
         type: 'descendant',
         depth,
       });
       
-      const childMap = collectionMap.get(child.id);
       if (childMap && childMap.children.length > 0) {
         traverse(childMap.children, depth + 1);
       }
@@ -297,60 +436,390 @@ async function buildIndirectRelations(
 ): Promise<void> {
   for (const [collection, collectionMap] of graph.nodes) {
     for (const [id, relationMap] of collectionMap) {
-      const entryKey = getEntryKey(collection as CollectionKey, id);
-      const visited = new Set<string>([entryKey]);
-      const indirect: Relation[] = [];
-      
-      // BFS to find indirect relations
-      const queue: Array<{ key: string; path: string[]; depth: number }> = [];
-      
-      // Start with direct references
-      for (const ref of relationMap.references) {
-        const refKey = getEntryKey(ref.collection, ref.id);
+      calculateIndirect(graph, collection as CollectionKey, id, relationMap, maxDepth);
+    }
+  }
+}
+
+/**
+ * Helper: Find multi-hop relations of one entry (BFS over references)
+ */
+function calculateIndirect(
+  graph: RelationshipGraph,
+  collection: CollectionKey,
+  id: string,
+  relationMap: RelationMap,
+  maxDepth: number
+): void {
+  const entryKey = getEntryKey(collection, id);
+  const visited = new Set<string>([entryKey]);
+  const indirect: Relation[] = [];
+  
+  // BFS to find indirect relations
+  const queue: Array<{ key: string; path: string[]; depth: number }> = [];
+  
+  // Start with direct references
+  for (const ref of relationMap.references) {
+    const refKey = getEntryKey(ref.collection, ref.id);
+    queue.push({
+      key: refKey,
+      path: [collection as string, ref.collection],
+      depth: 1,
+    });
+  }
+  
+  while (queue.length > 0) {
+    const { key, path, depth } = queue.shift()!;
+    
+    if (depth >= maxDepth) continue;
+    if (visited.has(key)) continue;
+    
+    visited.add(key);
+    const { collection: currentColl, id: currentId } = parseEntryKey(key);
+    const currentMap = graph.nodes.get(currentColl)?.get(currentId);
+    
+    if (!currentMap) continue;
+    
+    // Add as indirect relation
+    if (depth > 1) {
+      indirect.push({
+        type: 'indirect',
+        collection: currentColl,
+        id: currentId,
+        depth,
+        path,
+      });
+    }
+    
+    // Queue next level
+    for (const ref of currentMap.references) {
+      const refKey = getEntryKey(ref.collection, ref.id);
+      if (!visited.has(refKey)) {
         queue.push({
           key: refKey,
-          path: [collection as string, ref.collection],
-          depth: 1,
+          path: [...path, ref.collection],
+          depth: depth + 1,
         });
       }
+    }
+  }
+  
+  relationMap.indirect = indirect;
+}
+
+// ============================================================================
+// INCREMENTAL UPDATES
+// ============================================================================
+
+/**
+ * Add or replace a single entry in the graph
+ *
+ * Patches references, referencedBy, the hierarchy of the affected trees and
+ * the indirect relations of every entry that can reach it. Unpublished
+ * entries are removed instead.
+ *
+ * @example
+ * updateGraphEntry(graph, await getEntry('blog', 'my-post'));
+ */
+export function updateGraphEntry(
+  graph: RelationshipGraph,
+  entry: CollectionEntry<CollectionKey>
+): void {
+  const touched = new Set<string>();
+  const id = getQueryKey(entry);
+  
+  // An entry that became unpublished leaves the graph
+  if (!isPublished(entry.data)) {
+    removeGraphEntry(graph, entry.collection, id);
+    graph.unpublished.add(getEntryKey(entry.collection, id));
+    return;
+  }
+  graph.unpublished.delete(getEntryKey(entry.collection, id));
+  
+  if (graph.nodes.get(entry.collection)?.has(id)) {
+    unlinkNode(graph, entry.collection, id, touched);
+  }
+  linkNode(graph, entry, touched);
+  refreshDerived(graph, touched);
+}
+
+/**
+ * Remove a single entry from the graph
+ * Entries that referenced it keep the (now dangling) reference, as in a full build.
+ */
+export function removeGraphEntry(
+  graph: RelationshipGraph,
+  collection: CollectionKey,
+  id: string
+): void {
+  const touched = new Set<string>();
+  const cleanId = normalizeId(id);
+  
+  graph.unpublished.delete(getEntryKey(collection, cleanId));
+  if (!graph.nodes.get(collection)?.has(cleanId)) return;
+  
+  unlinkNode(graph, collection, cleanId, touched);
+  refreshDerived(graph, touched);
+}
+
+/**
+ * Bring a graph up to date with the content store
+ *
+ * Reloads the graph's collections, compares entries by content digest and
+ * patches only those that were added, changed or removed.
+ *
+ * @returns Keys of the patched entries
+ */
+export async function syncGraph(graph: RelationshipGraph): Promise<GraphChanges> {
+  const changes: GraphChanges = { added: [], updated: [], removed: [] };
+  
+  // Load everything first so patches are applied in one synchronous step
+  // (unpublished entries drop out like deleted ones)
+  const loaded = new Map<CollectionKey, CollectionEntry<CollectionKey>[]>();
+  graph.unpublished.clear();
+  for (const collection of graph.collections) {
+    loaded.set(collection, await loadGraphEntries(graph, collection));
+  }
+  
+  const touched = new Set<string>();
+  
+  for (const [collection, entries] of loaded) {
+    if (!graph.nodes.has(collection)) {
+      graph.nodes.set(collection, new Map());
+      graph.indexes.byCollection.set(collection, new Set());
+    }
+    const collectionMap = graph.nodes.get(collection)!;
+    const seen = new Set<string>();
+    
+    for (const entry of entries) {
+      const id = getQueryKey(entry);
+      const key = getEntryKey(collection, id);
+      const existing = collectionMap.get(id);
+      seen.add(id);
       
-      while (queue.length > 0) {
-        const { key, path, depth } = queue.shift()!;
-        
-        if (depth >= maxDepth) continue;
-        if (visited.has(key)) continue;
-        
-        visited.add(key);
-        const { collection: currentColl, id: currentId } = parseEntryKey(key);
-        const currentMap = graph.nodes.get(currentColl)?.get(currentId);
-        
-        if (!currentMap) continue;
-        
-        // Add as indirect relation
-        if (depth > 1) {
-          indirect.push({
-            type: 'indirect',
-            collection: currentColl,
-            id: currentId,
-            depth,
-            path,
-          });
-        }
-        
-        // Queue next level
-        for (const ref of currentMap.references) {
-          const refKey = getEntryKey(ref.collection, ref.id);
-          if (!visited.has(refKey)) {
-            queue.push({
-              key: refKey,
-              path: [...path, ref.collection],
-              depth: depth + 1,
-            });
-          }
-        }
+      if (!existing) {
+        changes.added.push(key);
+      } else if (getEntryDigest(existing.entry) !== getEntryDigest(entry)) {
+        changes.updated.push(key);
+        unlinkNode(graph, collection, id, touched);
+      } else {
+        continue;
+      }
+      linkNode(graph, entry, touched);
+    }
+    
+    for (const id of Array.from(collectionMap.keys())) {
+      if (seen.has(id)) continue;
+      changes.removed.push(getEntryKey(collection, id));
+      unlinkNode(graph, collection, id, touched);
+    }
+  }
+  
+  refreshDerived(graph, touched);
+  return changes;
+}
+
+/**
+ * Helper: Content fingerprint of an entry
+ * Uses the content layer digest when the loader provides one.
+ */
+function getEntryDigest(entry: CollectionEntry<CollectionKey>): string {
+  const digest = (entry as { digest?: string | number }).digest;
+  return digest !== undefined
+    ? String(digest)
+    : stableStringify({ data: entry.data, body: (entry as { body?: string }).body });
+}
+
+/**
+ * Helper: Insert a node and connect it in both directions
+ */
+function linkNode(
+  graph: RelationshipGraph,
+  entry: CollectionEntry<CollectionKey>,
+  touched: Set<string>
+): void {
+  const collection = entry.collection;
+  const relationMap = addNode(graph, entry);
+  const id = getQueryKey(entry);
+  const entryKey = getEntryKey(collection, id);
+  touched.add(entryKey);
+  
+  // Outgoing references
+  linkReferences(graph, collection, id, relationMap);
+  
+  // Incoming references (sources already point here via the index)
+  for (const sourceKey of graph.indexes.byReference.get(entryKey) ?? []) {
+    const source = parseEntryKey(sourceKey);
+    const sourceMap = graph.nodes.get(source.collection)?.get(source.id);
+    if (!sourceMap) continue;
+    
+    for (const ref of sourceMap.references) {
+      if (ref.collection !== collection || ref.id !== id) continue;
+      addReverseReference(relationMap, {
+        type: 'referenced-by',
+        collection: source.collection,
+        id: source.id,
+        field: ref.field,
+        inverse: ref.inverse,
+      });
+    }
+  }
+  
+  // Own parent, then orphans that declare this entry as parent
+  linkParent(graph, collection, id, relationMap);
+  if (relationMap.parent) {
+    touched.add(getEntryKey(relationMap.parent.collection, relationMap.parent.id));
+  }
+  
+  for (const [, childCollectionMap] of graph.nodes) {
+    for (const [childId, childMap] of childCollectionMap) {
+      if (childMap.parent || childMap === relationMap) continue;
+      const childCollection = childMap.entry.collection;
+      const declared = getDeclaredParent(childMap, childCollection);
+      if (declared?.collection !== collection || declared.id !== id) continue;
+      linkParent(graph, childCollection, childId, childMap);
+      touched.add(getEntryKey(childCollection, childId));
+    }
+  }
+}
+
+/**
+ * Helper: Detach a node from everything it is connected to and drop it
+ */
+function unlinkNode(
+  graph: RelationshipGraph,
+  collection: CollectionKey,
+  id: string,
+  touched: Set<string>
+): void {
+  const collectionMap = graph.nodes.get(collection)!;
+  const relationMap = collectionMap.get(id)!;
+  const entryKey = getEntryKey(collection, id);
+  touched.add(entryKey);
+  
+  // Outgoing references: drop reverse links and index entries
+  for (const ref of relationMap.references) {
+    const targetMap = graph.nodes.get(ref.collection)?.get(ref.id);
+    if (targetMap) {
+      const isSource = (rel: Relation) =>
+        rel.collection === collection && rel.id === id && rel.field === ref.field;
+      targetMap.referencedBy = targetMap.referencedBy.filter(rel => !isSource(rel));
+      if (ref.inverse && targetMap.inverse[ref.inverse]) {
+        targetMap.inverse[ref.inverse] = targetMap.inverse[ref.inverse].filter(rel => !isSource(rel));
+        if (targetMap.inverse[ref.inverse].length === 0) delete targetMap.inverse[ref.inverse];
       }
+    }
+    
+    const refKey = getEntryKey(ref.collection, ref.id);
+    const sources = graph.indexes.byReference.get(refKey);
+    sources?.delete(entryKey);
+    if (sources?.size === 0) graph.indexes.byReference.delete(refKey);
+  }
+  
+  // Parent: remove from its children
+  if (relationMap.parent) {
+    const parentMap = getNode(graph, relationMap.parent);
+    const parentKey = getEntryKey(relationMap.parent.collection, relationMap.parent.id);
+    if (parentMap) {
+      parentMap.children = parentMap.children.filter(
+        child => !(child.id === id && child.collection === collection)
+      );
+      parentMap.hasChildren = parentMap.children.length > 0;
+      parentMap.isLeaf = !parentMap.hasChildren;
+    }
+    
+    const siblings = graph.indexes.byParent.get(parentKey);
+    siblings?.delete(entryKey);
+    if (siblings?.size === 0) graph.indexes.byParent.delete(parentKey);
+    touched.add(parentKey);
+  }
+  
+  // Children: become roots until a parent with this id returns
+  for (const child of relationMap.children) {
+    const childMap = getNode(graph, child);
+    if (childMap) {
+      childMap.parent = undefined;
+      childMap.isRoot = true;
+    }
+    touched.add(getEntryKey(child.collection, child.id));
+  }
+  graph.indexes.byParent.delete(entryKey);
+  
+  collectionMap.delete(id);
+  graph.indexes.byCollection.get(collection)?.delete(id);
+  graph.totalEntries--;
+}
+
+/**
+ * Helper: Recompute hierarchy and indirect relations around touched entries
+ *
+ * Hierarchy is recomputed for every tree containing a touched entry.
+ * Indirect relations are recomputed for entries that can reach a touched
+ * entry within the graph's indirect depth. Bumps graph.version.
+ */
+function refreshDerived(graph: RelationshipGraph, touched: Set<string>): void {
+  if (touched.size === 0) return;
+  graph.version++;
+  
+  // Hierarchy: walk up to each affected root, then recompute its whole tree
+  const roots = new Map<string, { collection: CollectionKey; id: string }>();
+  for (const key of touched) {
+    let { collection, id } = parseEntryKey(key);
+    let current = graph.nodes.get(collection)?.get(id);
+    if (!current) continue;
+    
+    const seen = new Set<RelationMap>([current]);
+    while (current.parent) {
+      const parentMap = getNode(graph, current.parent);
+      if (!parentMap || seen.has(parentMap)) break;
+      ({ collection, id } = current.parent);
+      seen.add(parentMap);
+      current = parentMap;
+    }
+    roots.set(getEntryKey(collection, id), { collection, id });
+  }
+  
+  const seen = new Set<RelationMap>();
+  for (const root of roots.values()) {
+    const stack: Array<{ collection: CollectionKey; id: string }> = [root];
+    
+    while (stack.length > 0) {
+      const { collection, id } = stack.pop()!;
+      const relationMap = graph.nodes.get(collection)?.get(id);
+      if (!relationMap || seen.has(relationMap)) continue;
+      seen.add(relationMap);
       
-      relationMap.indirect = indirect;
+      relationMap.isRoot = !relationMap.parent;
+      relationMap.hasChildren = relationMap.children.length > 0;
+      relationMap.isLeaf = !relationMap.hasChildren;
+      calculateHierarchy(graph, id, relationMap);
+      stack.push(...relationMap.children);
+    }
+  }
+  
+  // Indirect: entries reaching a touched entry, found backwards through the index
+  const settings = indirectSettings.get(graph) ?? { includeIndirect: true, maxIndirectDepth: 3 };
+  if (!settings.includeIndirect) return;
+  
+  const affected = new Set<string>(touched);
+  let frontier = Array.from(touched);
+  for (let level = 0; level < settings.maxIndirectDepth && frontier.length > 0; level++) {
+    const next: string[] = [];
+    for (const key of frontier) {
+      for (const sourceKey of graph.indexes.byReference.get(key) ?? []) {
+        if (affected.has(sourceKey)) continue;
+        affected.add(sourceKey);
+        next.push(sourceKey);
+      }
+    }
+    frontier = next;
+  }
+  
+  for (const key of affected) {
+    const { collection, id } = parseEntryKey(key);
+    const relationMap = graph.nodes.get(collection)?.get(id);
+    if (relationMap) {
+      calculateIndirect(graph, collection, id, relationMap, settings.maxIndirectDepth);
     }
   }
 }
@@ -381,24 +850,86 @@ export function getCollectionEntries(
 }
 
 /**
- * Check if graph has been built
+ * Get the cached graph, building it on first use
+ * The pending build is cached so concurrent callers share a single build.
+ * After markGraphStale() (dev content edits), the cached graph is patched
+ * with syncGraph() instead of rebuilt.
  */
-let _cachedGraph: RelationshipGraph | null = null;
-
 export async function getOrBuildGraph(
   options?: GraphBuildOptions
 ): Promise<RelationshipGraph> {
-  if (_cachedGraph && options?.cache !== false) {
-    return _cachedGraph;
+  const state = getGraphState();
+  
+  if (state.pending && options?.cache !== false) {
+    if (state.stale && state.resolved) {
+      state.stale = false;
+      clearQueryCache();
+      track(state.pending.then(graph => patchGraph(graph, options)));
+    }
+    return state.pending!;
   }
   
-  _cachedGraph = await buildRelationshipGraph(options);
-  return _cachedGraph;
+  state.stale = false;
+  return track(buildRelationshipGraph(options));
 }
 
 /**
- * Clear cached graph
+ * Helper: Make a build/sync the cached graph once it resolves
+ * Failed loads are evicted so the next call starts over.
+ */
+function track(pending: Promise<RelationshipGraph>): Promise<RelationshipGraph> {
+  const state = getGraphState();
+  state.pending = pending;
+  pending.then(
+    graph => {
+      if (state.pending === pending) state.resolved = graph;
+    },
+    () => {
+      if (state.pending === pending) {
+        state.pending = null;
+        state.resolved = null;
+      }
+    }
+  );
+  return pending;
+}
+
+/**
+ * Helper: Apply content changes to a graph, rebuilding if patching fails
+ */
+async function patchGraph(
+  graph: RelationshipGraph,
+  options?: GraphBuildOptions
+): Promise<RelationshipGraph> {
+  try {
+    const { added, updated, removed } = await syncGraph(graph);
+    if (added.length + updated.length + removed.length > 0) {
+      console.log(
+        `♻️ Graph updated: ${added.length} added, ${updated.length} changed, ${removed.length} removed`
+      );
+    }
+    return graph;
+  } catch (error) {
+    console.warn('Incremental graph update failed, rebuilding:', error);
+    return buildRelationshipGraph(options);
+  }
+}
+
+/**
+ * Get the cached graph synchronously, if it has finished building
+ * Used by synchronous filters (see whereRelated) after prepareFilters().
+ */
+export function getLoadedGraph(): RelationshipGraph | null {
+  return getGraphState().resolved;
+}
+
+/**
+ * Clear cached graph (and query results derived from the same content)
  */
 export function clearGraphCache(): void {
-  _cachedGraph = null;
-}
\ No newline at end of file
+  const state = getGraphState();
+  state.pending = null;
+  state.resolved = null;
+  state.stale = false;
+  clearQueryCache();
+}
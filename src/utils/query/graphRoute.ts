@@ -0,0 +1,139 @@
+// src/utils/query/graphRoute.ts
+/**
+ * Relationship Graph Dev Route
+ *
+ * Served at /_graph in `astro dev` only (injected by relationshipGraphWatcher,
+ * never part of a build). Renders the graph as a Mermaid diagram with
+ * collection and relation type filters, or returns it in another format:
+ *
+ *   /_graph?collections=blog,authors&types=reference
+ *   /_graph?format=json | dot | mermaid
+ */
+
+import type { APIRoute } from 'astro';
+import type { CollectionKey } from 'astro:content';
+import { getOrBuildGraph } from './graph';
+import { toGraphJSON, toDot, toMermaid } from './serialize';
+import type { GraphEdgeType, GraphExportOptions } from './types';
+
+// Rendered per request so the filter query params reach the handler
+export const prerender = false;
+
+const EDGE_TYPES: GraphEdgeType[] = ['reference', 'parent', 'indirect'];
+
+export const GET: APIRoute = async ({ url }) => {
+  const graph = await getOrBuildGraph();
+  const params = url.searchParams;
+
+  const options: GraphExportOptions = {
+    collections: getList(params, 'collections', graph.collections),
+    relationTypes: getList(params, 'types', EDGE_TYPES, ['reference', 'parent']),
+    includeIsolated: params.get('isolated') !== '0',
+  };
+
+  switch (params.get('format')) {
+    case 'json':
+      return new Response(JSON.stringify(toGraphJSON(graph, options), null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    case 'dot':
+      return new Response(toDot(graph, options), {
+        headers: { 'Content-Type': 'text/vnd.graphviz; charset=utf-8' },
+      });
+    case 'mermaid':
+      return new Response(toMermaid(graph, options), {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+  }
+
+  return new Response(renderPage(url, graph.collections, options, toMermaid(graph, options)), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+};
+
+/**
+ * Helper: Comma-separated query param, limited to known values
+ */
+function getList<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly T[],
+  fallback: T[] = [...allowed]
+): T[] {
+  const value = params.get(name);
+  if (value === null) return fallback;
+  return value.split(',').filter((item): item is T => allowed.includes(item as T));
+}
+
+/**
+ * Helper: Escape text for HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Helper: Filter form, export links and the rendered diagram
+ */
+function renderPage(
+  url: URL,
+  collections: CollectionKey[],
+  options: GraphExportOptions,
+  diagram: string
+): string {
+  const checkbox = (name: string, value: string, checked: boolean) =>
+    `<label><input type="checkbox" data-list="${name}" value="${value}"${checked ? ' checked' : ''}> ${value}</label>`;
+
+  const formatLink = (format: string) => {
+    const target = new URL(url);
+    target.searchParams.set('format', format);
+    return `<a href="${escapeHtml(target.pathname + target.search)}">${format}</a>`;
+  };
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Relationship graph</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #0f172a; }
+    fieldset { display: inline-flex; gap: 1rem; margin: 0 1rem 1rem 0; border: 1px solid #cbd5e1; }
+    .mermaid { margin-top: 1.5rem; }
+  </style>
+</head>
+<body>
+  <h1>Relationship graph</h1>
+  <form id="filters">
+    <fieldset><legend>Collections</legend>
+      ${collections.map(c => checkbox('collections', c, options.collections!.includes(c))).join('\n      ')}
+    </fieldset>
+    <fieldset><legend>Relations</legend>
+      ${EDGE_TYPES.map(t => checkbox('types', t, options.relationTypes!.includes(t))).join('\n      ')}
+    </fieldset>
+    <label><input type="checkbox" name="isolated" value="0"${options.includeIsolated ? '' : ' checked'}> hide unlinked entries</label>
+    <button type="submit">Apply</button>
+  </form>
+  <p>Export: ${['json', 'dot', 'mermaid'].map(formatLink).join(' · ')}</p>
+  <pre class="mermaid">${escapeHtml(diagram)}</pre>
+  <script type="module">
+    import mermaid from 'https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.esm.min.mjs';
+    mermaid.initialize({ startOnLoad: true, securityLevel: 'strict' });
+
+    document.getElementById('filters').addEventListener('submit', (event) => {
+      event.preventDefault();
+      const params = new URLSearchParams();
+      for (const name of ['collections', 'types']) {
+        const values = [...document.querySelectorAll('[data-list="' + name + '"]:checked')].map(el => el.value);
+        params.set(name, values.join(','));
+      }
+      if (event.target.isolated.checked) params.set('isolated', '0');
+      location.search = params.toString();
+    });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,36 @@
+// src/utils/query/graphState.ts
+/**
+ * Relationship Graph Cache State
+ *
+ * Kept on globalThis rather than in graph.ts module scope: in dev, Vite
+ * re-evaluates modules that import astro:content when content changes, which
+ * would otherwise drop the cached graph and force a full rebuild. It also lets
+ * the dev watcher (see integration.ts) flag changes without importing
+ * astro:content itself.
+ */
+
+import type { RelationshipGraph } from './types';
+
+export interface GraphState {
+  pending: Promise<RelationshipGraph> | null;   // Build or sync in progress (or done)
+  resolved: RelationshipGraph | null;           // Last finished graph
+  stale: boolean;                               // Content changed since the last sync
+}
+
+const GRAPH_STATE_KEY = Symbol.for('griffins-web-services.relationshipGraph');
+
+/**
+ * Get the shared graph state (created on first use)
+ */
+export function getGraphState(): GraphState {
+  const scope = globalThis as typeof globalThis & { [GRAPH_STATE_KEY]?: GraphState };
+  return scope[GRAPH_STATE_KEY] ??= { pending: null, resolved: null, stale: false };
+}
+
+/**
+ * Flag the cached graph as out of date
+ * The next getOrBuildGraph() patches the changed entries instead of rebuilding.
+ */
+export function markGraphStale(): void {
+  getGraphState().stale = true;
+}
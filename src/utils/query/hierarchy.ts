@@ -3,13 +3,17 @@
  * Hierarchical Query Utilities
  * 
  * Functions for querying parent-child relationships and tree structures.
+ * Parents may live in another collection (parent: "services/web-development"),
+ * so ancestors, trees and breadcrumbs can span collections.
  */
 
 import type { CollectionEntry, CollectionKey } from 'astro:content';
-import type { Relation, RelationMap } from './types';
+import type { Relation, RelationMap, RelationshipGraph } from './types';
 import { getRelations } from './relations';
 import { getOrBuildGraph, getRelationMap } from './graph';
 import { normalizeId } from './helpers';
+import { getEntryUrl } from '@/utils/collections';
+import { shapeTree, type ShapeTreeOptions, type TreeMeta, type TreeSort } from '@/utils/tree';
 
 /**
  * Get parent entry
@@ -193,11 +197,25 @@ export async function getLeaves<T extends CollectionKey>(
 
 /**
  * Get full tree structure starting from a node
+ * Children from other collections are included (check node.entry.collection).
+ * 
+ * Siblings are sorted by `order`, then title, unless `sort` says otherwise.
+ * A number as the third argument is the max depth. The root is always kept:
+ * `filter` and `maxDepth` only prune its descendants.
+ * 
+ * @example
+ * const tree = await getTree('services', 'web-development', {
+ *   maxDepth: 2,
+ *   activePath: Astro.url.pathname,
+ *   filter: node => node.entry.collection !== 'faq',
+ * });
+ * tree.number;             // '1'
+ * tree.children[0].number; // '1.1'
  */
 export async function getTree<T extends CollectionKey>(
   collection: T,
   id: string,
-  maxDepth: number = Infinity
+  options: number | TreeOptions = {}
 ): Promise<TreeNode<T>> {
   const cleanId = normalizeId(id);
   const graph = await getOrBuildGraph();
@@ -207,50 +225,90 @@ export async function getTree<T extends CollectionKey>(
     throw new Error(`Entry not found: ${collection}/${cleanId}`);
   }
   
-  return buildTreeNode(relationMap, graph, 0, maxDepth);
+  const { sort = sortByOrder, maxDepth = Infinity, ...rest } =
+    typeof options === 'number' ? { maxDepth: options } : options;
+  
+  const { filter, ...shapeOptions } = rest;
+  const root = buildTreeNode(relationMap, graph, new Set()) as TreeNode<T>;
+  const [shaped] = shapeTree<TreeNode<T>>([root], {
+    ...shapeOptions,
+    sort,
+    maxDepth: Math.max(maxDepth, 0),
+    filter: filter && ((node, depth) => depth === 0 || filter(node, depth)),
+  });
+  return shaped;
+}
+
+/**
+ * Get trees for every root entry of a collection
+ * 
+ * @example
+ * const forest = await getForest('services', { maxDepth: 1 });
+ */
+export async function getForest<T extends CollectionKey>(
+  collection: T,
+  options: TreeOptions = {}
+): Promise<TreeNode<T>[]> {
+  const graph = await getOrBuildGraph();
+  const collectionMap = graph.nodes.get(collection);
+  if (!collectionMap) return [];
+  
+  const { sort = sortByOrder, ...rest } = options;
+  const roots = [...collectionMap.values()]
+    .filter(relationMap => relationMap.isRoot)
+    .map(relationMap => buildTreeNode(relationMap, graph, new Set()));
+  
+  return shapeTree(roots, { sort, ...rest }) as unknown as TreeNode<T>[];
 }
 
 /**
  * Tree node structure
  */
-export interface TreeNode<T extends CollectionKey = CollectionKey> {
+export interface TreeNode<T extends CollectionKey = CollectionKey> extends TreeMeta {
   entry: CollectionEntry<T>;
-  children: TreeNode<T>[];
-  depth: number;
+  children: TreeNode[];       // May belong to other collections
+  url?: string;               // Page URL, if the entry has a page
   hasChildren: boolean;
   isLeaf: boolean;
 }
 
 /**
- * Build tree node recursively
+ * Options for getTree() and getForest() (see shapeTree)
  */
-function buildTreeNode<T extends CollectionKey>(
+export type TreeOptions = Omit<ShapeTreeOptions<TreeNode>, 'getUrl'>;
+
+/**
+ * Helper: Default sibling order - `order` field, then title
+ */
+const sortByOrder: TreeSort<TreeNode> = (a, b) => {
+  const aData = a.entry.data as { order?: number; title?: string };
+  const bData = b.entry.data as { order?: number; title?: string };
+  return (aData.order ?? Infinity) - (bData.order ?? Infinity)
+    || (aData.title ?? '').localeCompare(bData.title ?? '');
+};
+
+/**
+ * Build tree node recursively (shapeTree adds depth, numbering and state)
+ */
+function buildTreeNode(
   relationMap: RelationMap,
-  graph: any,
-  currentDepth: number,
-  maxDepth: number
-): TreeNode<T> {
-  const node: TreeNode<T> = {
-    entry: relationMap.entry as CollectionEntry<T>,
-    children: [],
-    depth: currentDepth,
+  graph: RelationshipGraph,
+  visited: Set<RelationMap>
+): TreeNode {
+  const node = {
+    entry: relationMap.entry,
+    children: [] as TreeNode[],
+    url: getEntryUrl(relationMap.entry),
     hasChildren: relationMap.hasChildren,
     isLeaf: relationMap.isLeaf,
-  };
-  
-  // Stop if max depth reached
-  if (currentDepth >= maxDepth) {
-    return node;
-  }
-  
-  // Build children recursively
-  const collectionMap = graph.nodes.get(relationMap.entry.collection);
+  } as TreeNode;
   
+  // Build children recursively (each child in its own collection)
+  visited.add(relationMap);
   for (const child of relationMap.children) {
-    const childId = normalizeId(child.id);
-    const childMap = collectionMap?.get(childId);
-    if (childMap) {
-      node.children.push(buildTreeNode(childMap, graph, currentDepth + 1, maxDepth));
+    const childMap = getRelationMap(graph, child.collection, child.id);
+    if (childMap && !visited.has(childMap)) {
+      node.children.push(buildTreeNode(childMap, graph, visited));
     }
   }
   
@@ -259,6 +317,12 @@ function buildTreeNode<T extends CollectionKey>(
 
 /**
  * Get breadcrumb path from root to entry
+ * Each crumb links to its own collection's URL when resolved.
+ * 
+ * @example
+ * const crumbs = await getBreadcrumbs('portfolio', 'ecommerce-platform');
+ * // [{ collection: 'services', id: 'web-development', url: '/services/web-development' },
+ * //  { collection: 'portfolio', id: 'ecommerce-platform', url: '/portfolio/ecommerce-platform' }]
  */
 export async function getBreadcrumbs<T extends CollectionKey>(
   collection: T,
@@ -268,10 +332,10 @@ export async function getBreadcrumbs<T extends CollectionKey>(
   const cleanId = normalizeId(id);
   const ancestors = await getAncestors(collection, cleanId, { resolve });
   
-  // Sort by depth (deepest first) and reverse to get root to current
+  // Sort by depth (deepest first) to get root to current
   const breadcrumbs = ancestors
-    .sort((a, b) => (b.depth || 0) - (a.depth || 0))
-    .reverse();
+    .map(ancestor => ({ ...ancestor }))
+    .sort((a, b) => (b.depth || 0) - (a.depth || 0));
   
   // Add current entry as last item
   const { getEntry } = await import('astro:content');
@@ -284,21 +348,30 @@ export async function getBreadcrumbs<T extends CollectionKey>(
     entry: currentEntry,
   });
   
+  for (const crumb of breadcrumbs) {
+    if (crumb.entry) crumb.url = getEntryUrl(crumb.entry);
+  }
+  
   return breadcrumbs;
 }
 
 /**
  * Check if entry is ancestor of another
+ * The ancestor is looked up in the same collection unless ancestorCollection
+ * is given.
  */
 export async function isAncestorOf(
   collection: CollectionKey,
   ancestorId: string,
-  descendantId: string
+  descendantId: string,
+  ancestorCollection: CollectionKey = collection
 ): Promise<boolean> {
   const cleanAncestorId = normalizeId(ancestorId);
   const cleanDescendantId = normalizeId(descendantId);
   const ancestors = await getAncestors(collection, cleanDescendantId);
-  return ancestors.some(a => normalizeId(a.id) === cleanAncestorId);
+  return ancestors.some(
+    a => a.collection === ancestorCollection && normalizeId(a.id) === cleanAncestorId
+  );
 }
 
 /**
@@ -307,9 +380,10 @@ export async function isAncestorOf(
 export async function isDescendantOf(
   collection: CollectionKey,
   descendantId: string,
-  ancestorId: string
+  ancestorId: string,
+  ancestorCollection: CollectionKey = collection
 ): Promise<boolean> {
-  return isAncestorOf(collection, ancestorId, descendantId);
+  return isAncestorOf(collection, ancestorId, descendantId, ancestorCollection);
 }
 
 /**
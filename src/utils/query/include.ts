@@ -0,0 +1,218 @@
+// src/utils/query/include.ts
+/**
+ * Eager Relation Population
+ *
+ * Resolves relation fields for a batch of entries in one pass, using the
+ * relationship graph (already in memory) instead of one getEntry() call per
+ * reference. Targets outside the graph (e.g. menus) are loaded once per
+ * collection.
+ *
+ * Entries are shallow-copied - cached query results are never mutated.
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type {
+  IncludedEntry,
+  IncludedMap,
+  IncludeOptions,
+  Relation,
+  RelationMap,
+  RelationshipGraph,
+} from './types';
+import { getEntryKey } from './types';
+import { getOrBuildGraph } from './graph';
+import { getCachedCollection } from './cache';
+import { getQueryKey, normalizeId } from './helpers';
+import { getFieldValue } from './fieldPath';
+import { getInverseCardinality } from './schema';
+
+/**
+ * Hierarchy relations that can be included by name
+ */
+const HIERARCHY_FIELDS = ['parent', 'children', 'siblings', 'ancestors', 'descendants'] as const;
+
+type HierarchyField = typeof HIERARCHY_FIELDS[number];
+
+/**
+ * Populate relation fields on entries
+ *
+ * Fields are reference fields (e.g. 'author'), inverse names declared in
+ * config.ts (e.g. 'posts' on authors) or hierarchy names
+ * ('parent', 'children', 'siblings', 'ancestors', 'descendants').
+ * With depth > 1, included entries get the same fields populated.
+ *
+ * @param entries - Entries to populate
+ * @param fields - Relation fields to resolve
+ * @param options - Depth control
+ * @returns Copies of the entries with an `included` map
+ * @example
+ * const [post] = await includeRelations(posts, ['author', 'parent']);
+ * post.included?.author // CollectionEntry<'authors'>
+ */
+export async function includeRelations<T extends CollectionKey>(
+  entries: CollectionEntry<T>[],
+  fields: string[],
+  options: IncludeOptions = {}
+): Promise<IncludedEntry<T>[]> {
+  const { depth = 1 } = options;
+  if (fields.length === 0 || depth < 1) return entries as IncludedEntry<T>[];
+
+  const graph = await getOrBuildGraph();
+  const external = await loadExternalTargets(graph, entries, fields, depth);
+  const memo = new Map<string, IncludedEntry>();
+
+  const populate = (entry: CollectionEntry<CollectionKey>, remaining: number): IncludedEntry => {
+    const memoKey = `${getEntryKey(entry.collection, getQueryKey(entry))}@${remaining}`;
+    const cached = memo.get(memoKey);
+    if (cached) return cached;
+
+    const copy: IncludedEntry = { ...entry, included: {} };
+    memo.set(memoKey, copy);
+
+    const node = getNode(graph, entry);
+    for (const field of fields) {
+      const targets = getTargets(graph, node, entry, field);
+      const resolved = targets
+        .map(rel => lookup(graph, external, rel))
+        .filter((target): target is CollectionEntry<CollectionKey> => !!target)
+        .map(target => remaining > 1 ? populate(target, remaining - 1) : target);
+
+      copy.included![field] = toValue(entry, field, resolved);
+    }
+
+    return copy;
+  };
+
+  return entries.map(entry => populate(entry, depth) as IncludedEntry<T>);
+}
+
+/**
+ * Helper: Get the graph node of an entry
+ */
+function getNode(
+  graph: RelationshipGraph,
+  entry: CollectionEntry<CollectionKey>
+): RelationMap | undefined {
+  return graph.nodes.get(entry.collection)?.get(getQueryKey(entry));
+}
+
+/**
+ * Helper: Relations for one field of an entry
+ * Entries outside the graph fall back to the raw reference in their data.
+ */
+function getTargets(
+  graph: RelationshipGraph,
+  node: RelationMap | undefined,
+  entry: CollectionEntry<CollectionKey>,
+  field: string
+): Relation[] {
+  if (node && isHierarchyField(field)) {
+    return field === 'parent' ? (node.parent ? [node.parent] : []) : node[field];
+  }
+
+  if (node?.inverse[field]) {
+    return node.inverse[field];
+  }
+
+  if (node) {
+    return node.references.filter(rel => rel.field === field);
+  }
+
+  return rawReferences(entry, field);
+}
+
+/**
+ * Helper: Read references straight from entry data
+ */
+function rawReferences(entry: CollectionEntry<CollectionKey>, field: string): Relation[] {
+  const value = getFieldValue(entry.data, field);
+  const refs = (Array.isArray(value) ? value : [value])
+    .filter(ref => ref && typeof ref === 'object' && 'collection' in ref && 'id' in ref);
+
+  return refs.map(ref => ({
+    type: 'reference',
+    collection: ref.collection,
+    id: normalizeId(ref.id),
+    field,
+  }));
+}
+
+/**
+ * Helper: Load collections holding targets the graph doesn't contain
+ * Each collection is loaded at most once for the whole batch.
+ */
+async function loadExternalTargets(
+  graph: RelationshipGraph,
+  entries: CollectionEntry<CollectionKey>[],
+  fields: string[],
+  depth: number
+): Promise<Map<string, CollectionEntry<CollectionKey>>> {
+  const external = new Map<string, CollectionEntry<CollectionKey>>();
+  const loaded = new Set<string>();
+  let frontier = entries;
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const missing = new Set<CollectionKey>();
+    const next: CollectionEntry<CollectionKey>[] = [];
+
+    for (const entry of frontier) {
+      const node = getNode(graph, entry);
+      for (const field of fields) {
+        for (const rel of getTargets(graph, node, entry, field)) {
+          const target = lookup(graph, external, rel);
+          if (target) next.push(target);
+          else if (!loaded.has(rel.collection)) missing.add(rel.collection);
+        }
+      }
+    }
+
+    for (const collection of missing) {
+      loaded.add(collection);
+      for (const target of await getCachedCollection(collection)) {
+        external.set(getEntryKey(collection, getQueryKey(target)), target);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return external;
+}
+
+/**
+ * Helper: Find a relation target in the graph or the external batch
+ */
+function lookup(
+  graph: RelationshipGraph,
+  external: Map<string, CollectionEntry<CollectionKey>>,
+  rel: Relation
+): CollectionEntry<CollectionKey> | undefined {
+  return graph.nodes.get(rel.collection)?.get(rel.id)?.entry
+    ?? external.get(getEntryKey(rel.collection, rel.id));
+}
+
+/**
+ * Helper: Single entry for single-valued fields, array otherwise
+ * Inverse relations are single-valued only when declared one-to-one.
+ */
+function toValue(
+  entry: CollectionEntry<CollectionKey>,
+  field: string,
+  resolved: IncludedEntry[]
+): IncludedMap[string] {
+  const inverse = getInverseCardinality(entry.collection, field);
+  const isMany = isHierarchyField(field)
+    ? field !== 'parent'
+    : inverse
+      ? inverse !== 'one-to-one'
+      : Array.isArray(getFieldValue(entry.data, field));
+
+  return isMany ? resolved : resolved[0];
+}
+
+/**
+ * Helper: Check for a hierarchy relation name
+ */
+function isHierarchyField(field: string): field is HierarchyField {
+  return (HIERARCHY_FIELDS as readonly string[]).includes(field);
+}
@@ -13,10 +13,44 @@ export type {
   FilterFn,
   SortFn,
   SortConfig,
+  SortKey,
   QueryOptions,
   QueryResult,
+  QueryPage,
+  QueryGroup,
+  FacetValue,
+  IncludedEntry,
+  IncludedMap,
+  IncludeOptions,
+  IncludeField,
+  InverseField,
+  EntryData,
+  FieldPath,
+  FieldValue,
+  FieldElement,
+  AggregateFn,
+  QueryExplain,
+  ExplainStep,
   RelationshipGraph,
   EntryReference,
+  GraphIssue,
+  GraphIssueType,
+  GraphValidationResult,
+  GraphEdgeType,
+  GraphExport,
+  GraphExportNode,
+  GraphExportEdge,
+  GraphExportOptions,
+  Recommendation,
+  RecommendationOptions,
+  RecommendationReason,
+  RecommendationWeights,
+  AdjacentOptions,
+  AdjacentEntry,
+  AdjacentEntries,
+  PathOptions,
+  PathStep,
+  GraphPath,
 } from './types';
 
 export {
@@ -39,6 +73,8 @@ export {
   parentSchema,
   createRelationalSchema,
   extractRelationConfig,
+  getRelationConfig,
+  getRelationDeclarations,
   normalizeReference,
   isParentField,
 } from './schema';
@@ -49,18 +85,47 @@ export {
   getRelationMap,
   getCollectionEntries,
   getOrBuildGraph,
+  getLoadedGraph,
   clearGraphCache,
+  updateGraphEntry,
+  removeGraphEntry,
+  syncGraph,
+  type GraphChanges,
 } from './graph';
 
+export { markGraphStale } from './graphState';
+
+// Graph integrity
+export {
+  validateGraph,
+  reportGraphValidation,
+} from './validation';
+
+// Graph export
+export {
+  toGraphJSON,
+  toDot,
+  toMermaid,
+} from './serialize';
+
 // Relations
 export {
   getRelations,
   getReferencedEntries,
   getReferencingEntries,
+  getInverseRelations,
   getAllRelatedEntries,
   resolveRelations,
 } from './relations';
 
+export { getRecommendations } from './recommendations';
+
+// Paths
+export {
+  findPath,
+  getConnections,
+} from './paths';
+
 // Hierarchy
 export {
   getParent,
@@ -71,13 +136,17 @@ export {
   getRoots,
   getLeaves,
   getTree,
+  getForest,
   getBreadcrumbs,
   isAncestorOf,
   isDescendantOf,
   getLevel,
   type TreeNode,
+  type TreeOptions,
 } from './hierarchy';
 
+export { getAdjacent } from './adjacent';
+
 // Filters
 export {
   whereEquals,
@@ -92,10 +161,16 @@ export {
   whereBefore,
   whereArrayContains,
   whereArrayContainsAny,
+  whereStatus,
+  whereMatches,
+  whereRelated,
+  whereHasReferences,
+  whereConnectedTo,
   and,
   or,
   not,
   applyFilters,
+  prepareFilters,
 } from './filters';
 
 // Sorting
@@ -107,8 +182,63 @@ export {
   sortByMultiple,
   createSortFn,
   applySorting,
+  getSortKey,
+  type SortOptions,
 } from './sorting';
 
+// Field paths
+export {
+  parseFieldPath,
+  getFieldValue,
+  setFieldValue,
+} from './fieldPath';
+
+// Descriptors & caching
+export {
+  describe,
+  getDescriptor,
+  formatDescriptor,
+  stableStringify,
+  type FnDescriptor,
+} from './describe';
+
+export {
+  getCached,
+  getCachedCollection,
+  setQueryCacheEnabled,
+  clearQueryCache,
+  getQueryCacheStats,
+  type QueryCacheStats,
+} from './cache';
+
+// Explain / profiling
+export {
+  formatStep,
+  getFilterLabel,
+  getSortLabel,
+  getExplainRows,
+  formatExplain,
+  logExplain,
+  type ExplainRow,
+} from './explain';
+
+// Eager relation population
+export { includeRelations } from './include';
+
+// Aggregation
+export {
+  count,
+  min,
+  max,
+  sum,
+  distinct,
+  groupEntries,
+  facetEntries,
+  runAggregates,
+  getFieldValues,
+  getValueKey,
+} from './aggregates';
+
 // Query builder
 export {
   Query,
@@ -116,4 +246,47 @@ export {
   find,
   findWhere,
   findAll,
-} from './query';
\ No newline at end of file
+} from './query';
+
+// Pagination
+export {
+  paginate,
+  getPaginatedPaths,
+  getPageUrl,
+  type PaginateOptions,
+  type PaginatedPage,
+  type PaginatedPath,
+  type PageUrls,
+} from './pagination';
+
+// Taxonomy archives (tags, categories)
+export {
+  getTaxonomyTerms,
+  getTaxonomyPath,
+  getTaxonomyUrl,
+  getTermSlug,
+  whereTerm,
+  assertTaxonomyUrlsFree,
+  type TaxonomyTerm,
+} from './taxonomy';
+
+export {
+  encodeCursor,
+  decodeCursor,
+  type CursorPayload,
+} from './cursor';
+
+// Declarative query definitions
+export {
+  compileQuery,
+  compileCondition,
+  compileSort,
+  isQueryDefinition,
+} from './definition';
+
+export type {
+  QueryDefinition,
+  QueryCondition,
+  QuerySort,
+  QueryOperatorType,
+} from '@/content/schema';
\ No newline at end of file
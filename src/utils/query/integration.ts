@@ -0,0 +1,58 @@
+// src/utils/query/integration.ts
+/**
+ * Relationship Graph Dev Integration
+ *
+ * Watches content files in `astro dev` and flags the cached relationship
+ * graph as stale, so the next query patches the changed entries (see
+ * syncGraph) rather than serving stale relations or rebuilding everything.
+ * Also serves the graph viewer at /_graph (see graphRoute.ts) in dev only.
+ * This is the file imported by astro.config.mjs - it must not import
+ * astro:content.
+ */
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import { markGraphStale } from './graphState';
+
+export interface GraphWatcherOptions {
+  contentDir?: string;   // Directory holding collection files (default src/content)
+  route?: string | false; // Dev graph viewer path (default /_graph, false to disable)
+}
+
+/**
+ * Astro integration that keeps the relationship graph in sync in dev
+ *
+ * @example
+ * // astro.config.mjs
+ * integrations: [relationshipGraphWatcher()]
+ */
+export function relationshipGraphWatcher(options: GraphWatcherOptions = {}): AstroIntegration {
+  const { route = '/_graph' } = options;
+
+  return {
+    name: 'relationship-graph-watcher',
+    hooks: {
+      'astro:config:setup': ({ command, injectRoute }) => {
+        if (command !== 'dev' || route === false) return;
+        injectRoute({
+          pattern: route,
+          entrypoint: fileURLToPath(new URL('./graphRoute.ts', import.meta.url)),
+        });
+      },
+      'astro:server:setup': ({ server, logger }) => {
+        const contentDir = path.resolve(options.contentDir ?? 'src/content');
+
+        const onContentChange = (file: string): void => {
+          if (!path.resolve(file).startsWith(contentDir + path.sep)) return;
+          markGraphStale();
+          logger.debug(`${path.relative(contentDir, file)} changed, relationship graph marked stale`);
+        };
+
+        server.watcher.on('add', onContentChange);
+        server.watcher.on('change', onContentChange);
+        server.watcher.on('unlink', onContentChange);
+      },
+    },
+  };
+}
@@ -0,0 +1,134 @@
+// src/utils/query/pagination.ts
+/**
+ * Pagination Utilities
+ *
+ * Turns a Query into numbered pages with URLs, ready for getStaticPaths.
+ * Page 1 lives at the base path, later pages at {basePath}/{segment}/{n}:
+ *
+ *   /blog          ← page 1 (index route)
+ *   /blog/page/2   ← page 2 (e.g. src/pages/blog/page/[page].astro)
+ */
+
+import type { CollectionKey } from 'astro:content';
+import type { QueryPage } from './types';
+import type { Query } from './query';
+
+/**
+ * Options for paginating a query
+ */
+export interface PaginateOptions {
+  pageSize: number;
+  basePath: string;          // URL of page 1 (e.g. '/blog')
+  pageSegment?: string;      // Segment before the page number (default: 'page')
+}
+
+/**
+ * URLs for navigating between pages
+ */
+export interface PageUrls {
+  current: string;
+  first: string;
+  last: string;
+  prev?: string;
+  next?: string;
+}
+
+/**
+ * A query page with its URLs
+ */
+export interface PaginatedPage<T extends CollectionKey = CollectionKey> extends QueryPage<T> {
+  url: PageUrls;
+}
+
+/**
+ * Static path entry for a paginated route
+ */
+export interface PaginatedPath<
+  T extends CollectionKey = CollectionKey,
+  TParams extends Record<string, string | undefined> = Record<string, string | undefined>
+> {
+  params: TParams & { page: string };
+  props: { pagination: PaginatedPage<T> };
+}
+
+/**
+ * Split a query into pages with URLs
+ *
+ * @param q - Query to paginate (limit/offset are ignored)
+ * @param options - Page size and URL configuration
+ * @returns All pages, always at least one
+ * @example
+ * const pages = await paginate(query('blog').orderBy(sortByDate()), {
+ *   pageSize: 10,
+ *   basePath: '/blog',
+ * });
+ * pages[1].url.current // '/blog/page/2'
+ */
+export async function paginate<T extends CollectionKey>(
+  q: Query<T>,
+  options: PaginateOptions
+): Promise<PaginatedPage<T>[]> {
+  const { pageSize, basePath, pageSegment = 'page' } = options;
+  const pages = await q.pages(pageSize);
+  const urlFor = (page: number) => getPageUrl(basePath, page, pageSegment);
+
+  return pages.map(page => ({
+    ...page,
+    url: {
+      current: urlFor(page.page),
+      first: urlFor(1),
+      last: urlFor(page.totalPages),
+      prev: page.hasPrev ? urlFor(page.page - 1) : undefined,
+      next: page.hasNext ? urlFor(page.page + 1) : undefined,
+    },
+  }));
+}
+
+/**
+ * Build getStaticPaths entries for pages 2..n of a query
+ *
+ * Page 1 is skipped by default because it is served by the index route.
+ *
+ * @param q - Query to paginate
+ * @param options - Pagination options plus extra route params
+ * @returns Static paths with `page` param and `pagination` prop
+ * @example
+ * // src/pages/blog/page/[page].astro
+ * export async function getStaticPaths() {
+ *   return getPaginatedPaths(query('blog'), { pageSize: 10, basePath: '/blog' });
+ * }
+ */
+export async function getPaginatedPaths<
+  T extends CollectionKey,
+  TParams extends Record<string, string | undefined> = {}
+>(
+  q: Query<T>,
+  options: PaginateOptions & { params?: TParams; includeFirstPage?: boolean }
+): Promise<PaginatedPath<T, TParams>[]> {
+  const { params = {} as TParams, includeFirstPage = false, ...paginateOptions } = options;
+  const pages = await paginate(q, paginateOptions);
+
+  return pages
+    .filter(page => includeFirstPage || page.page > 1)
+    .map(page => ({
+      params: { ...params, page: String(page.page) },
+      props: { pagination: page },
+    }));
+}
+
+/**
+ * Get the URL for a page number
+ *
+ * @example
+ * getPageUrl('/blog', 1) // '/blog'
+ * getPageUrl('/blog', 3) // '/blog/page/3'
+ */
+export function getPageUrl(
+  basePath: string,
+  page: number,
+  pageSegment: string = 'page'
+): string {
+  const base = basePath.replace(/\/+$/, '');
+  if (page <= 1) return base || '/';
+  return `${base}/${pageSegment}/${page}`;
+}
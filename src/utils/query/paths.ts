@@ -0,0 +1,171 @@
+// src/utils/query/paths.ts
+/**
+ * Path Queries
+ *
+ * Shortest paths between entries over the relationship graph. Unlike the
+ * indirect relations (which follow references forward and record collection
+ * names only), paths follow every link in both directions - references,
+ * reverse references, parents and children - and keep the entry and field of
+ * each hop.
+ */
+
+import type { CollectionKey } from 'astro:content';
+import {
+  type EntryReference,
+  type GraphPath,
+  type PathOptions,
+  type PathStep,
+  type RelationshipGraph,
+  getEntryKey,
+  parseEntryKey,
+} from './types';
+import { getOrBuildGraph } from './graph';
+import { normalizeId } from './helpers';
+
+/**
+ * How an entry was reached during a search
+ */
+interface Visit {
+  depth: number;
+  previous?: string;    // Entry key of the entry before it
+  step?: PathStep;
+}
+
+/**
+ * Find the shortest path between two entries
+ *
+ * @param from - Start entry (reference or entry)
+ * @param to - End entry (reference or entry)
+ * @param options - Collections to pass through (`via`) and max hops
+ * @returns The path, or null if the entries aren't connected within maxDepth
+ * @example
+ * // How does this portfolio project relate to this service?
+ * const path = await findPath(
+ *   { collection: 'portfolio', id: 'ecommerce-platform' },
+ *   { collection: 'services', id: 'web-development' }
+ * );
+ * path?.steps;
+ * // [{ from: portfolio/ecommerce-platform, to: services/web-development, field: 'parent', direction: 'forward' }]
+ *
+ * // Only through authors
+ * await findPath(postA, postB, { via: ['authors'], maxDepth: 2 });
+ */
+export async function findPath(
+  from: EntryReference,
+  to: EntryReference,
+  options: PathOptions = {}
+): Promise<GraphPath | null> {
+  const graph = await getOrBuildGraph();
+  const start = getEntryKey(from.collection, normalizeId(from.id));
+  const end = getEntryKey(to.collection, normalizeId(to.id));
+  
+  const visits = searchGraph(graph, start, options, end);
+  if (!visits.has(end)) return null;
+  
+  // Walk back from the end entry
+  const steps: PathStep[] = [];
+  const keys: string[] = [end];
+  let current = visits.get(end)!;
+  
+  while (current.previous && current.step) {
+    steps.unshift(current.step);
+    keys.unshift(current.previous);
+    current = visits.get(current.previous)!;
+  }
+  
+  return {
+    entries: keys.map(key => {
+      const { collection, id } = parseEntryKey(key);
+      return graph.nodes.get(collection)!.get(id)!.entry;
+    }),
+    steps,
+    length: steps.length,
+  };
+}
+
+/**
+ * Get every entry connected to an entry within maxDepth hops
+ *
+ * @returns Entry key → hops (the start entry itself is left out)
+ * @example
+ * getConnections(graph, 'authors:jane-doe', { maxDepth: 2 });
+ * // Map { 'blog:first-post' => 1, ... }
+ */
+export function getConnections(
+  graph: RelationshipGraph,
+  start: string,
+  options: PathOptions = {}
+): Map<string, number> {
+  const connections = new Map<string, number>();
+  
+  for (const [key, visit] of searchGraph(graph, start, options)) {
+    if (key !== start) connections.set(key, visit.depth);
+  }
+  
+  return connections;
+}
+
+/**
+ * Helper: Breadth-first search from an entry
+ *
+ * Every linked entry can be reached, but only the start entry and entries in
+ * `via` collections are searched further. Stops early once `target` is found.
+ */
+function searchGraph(
+  graph: RelationshipGraph,
+  start: string,
+  options: PathOptions,
+  target?: string
+): Map<string, Visit> {
+  const { via, maxDepth = 4 } = options;
+  const visits = new Map<string, Visit>();
+  
+  const { collection, id } = parseEntryKey(start);
+  if (!graph.nodes.get(collection)?.has(id)) return visits;
+  
+  visits.set(start, { depth: 0 });
+  const queue: string[] = [start];
+  
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    const { depth } = visits.get(key)!;
+    if (depth >= maxDepth) continue;
+    
+    for (const step of getLinks(graph, key)) {
+      const next = getEntryKey(step.to.collection, step.to.id);
+      if (visits.has(next)) continue;
+      
+      visits.set(next, { depth: depth + 1, previous: key, step });
+      if (next === target) return visits;
+      
+      if (!via || via.includes(step.to.collection)) {
+        queue.push(next);
+      }
+    }
+  }
+  
+  return visits;
+}
+
+/**
+ * Helper: Hops from an entry to the entries it links with, in both directions
+ * Links to entries outside the graph are skipped.
+ */
+function getLinks(graph: RelationshipGraph, key: string): PathStep[] {
+  const from = parseEntryKey(key);
+  const node = graph.nodes.get(from.collection)?.get(from.id);
+  if (!node) return [];
+  
+  const steps: PathStep[] = [];
+  const add = (collection: CollectionKey, id: string, field: string, direction: PathStep['direction']) => {
+    if (!graph.nodes.get(collection)?.has(id)) return;
+    steps.push({ from, to: { collection, id }, field, direction });
+  };
+  
+  for (const rel of node.references) add(rel.collection, rel.id, rel.field ?? 'reference', 'forward');
+  if (node.parent) add(node.parent.collection, node.parent.id, 'parent', 'forward');
+  for (const rel of node.referencedBy) add(rel.collection, rel.id, rel.field ?? 'reference', 'reverse');
+  for (const rel of node.children) add(rel.collection, rel.id, 'parent', 'reverse');
+  
+  return steps;
+}
@@ -6,18 +6,34 @@
  */
 
 import type { CollectionEntry, CollectionKey } from 'astro:content';
-import { getCollection } from 'astro:content';
 import { 
   type QueryOptions, 
   type QueryResult, 
+  type QueryPage,
   type FilterFn, 
   type SortFn,
   type SortConfig,
+  type AggregateFn,
+  type IncludeOptions,
+  type IncludedEntry,
+  type IncludeField,
+  type EntryData,
+  type FieldPath,
+  type QueryExplain,
+  type ExplainStep,
 } from './types';
-import { getOrBuildGraph, getCollectionEntries } from './graph';
-import { applyFilters } from './filters';
-import { applySorting } from './sorting';
+import { getOrBuildGraph } from './graph';
+import { applyFilters, prepareFilters } from './filters';
+import { applySorting, createSortFn, sortByMultiple } from './sorting';
 import { getRelations } from './relations';
+import { encodeCursor, decodeCursor, cursorToEntry, getCursorKey } from './cursor';
+import { getDescriptor, stableStringify } from './describe';
+import { getCached, getCachedCollection } from './cache';
+import { normalizeId, getQueryKey } from './helpers';
+import { groupEntries, facetEntries, runAggregates } from './aggregates';
+import { includeRelations } from './include';
+import { getFilterLabel, getSortLabel } from './explain';
+import { isPublished } from '@/utils/publishing';
 
 /**
  * Query builder class
@@ -25,11 +41,17 @@ import { getRelations } from './relations';
 export class Query<T extends CollectionKey> {
   private _collection?: T | T[];
   private _filters: FilterFn<T>[] = [];
-  private _sorts: Array<SortFn<T> | SortConfig> = [];
+  private _sorts: Array<SortFn<T> | SortConfig<T>> = [];
   private _limit?: number;
   private _offset: number = 0;
   private _includeRelations: boolean = false;
   private _maxDepth: number = 3;
+  private _cursor?: { direction: 'after' | 'before'; token: string };
+  private _groupBy?: string;
+  private _facets: string[] = [];
+  private _aggregates: Record<string, AggregateFn<T>> = {};
+  private _include: { fields: string[]; depth: number } = { fields: [], depth: 1 };
+  private _unpublished: boolean = false;
   
   constructor(collection?: T | T[]) {
     this._collection = collection;
@@ -43,6 +65,15 @@ export class Query<T extends CollectionKey> {
     return this;
   }
   
+  /**
+   * Include drafts, scheduled and expired entries
+   * By default queries only return published entries (see isPublished).
+   */
+  withUnpublished(include: boolean = true): this {
+    this._unpublished = include;
+    return this;
+  }
+  
   /**
    * Add filter condition
    */
@@ -62,7 +93,7 @@ export class Query<T extends CollectionKey> {
   /**
    * Sort results
    */
-  orderBy(sort: SortFn<T> | SortConfig): this {
+  orderBy(sort: SortFn<T> | SortConfig<T>): this {
     this._sorts.push(sort);
     return this;
   }
@@ -83,6 +114,66 @@ export class Query<T extends CollectionKey> {
     return this;
   }
   
+  /**
+   * Start after a cursor (keyset pagination, replaces offset)
+   */
+  after(cursor: string): this {
+    this._cursor = { direction: 'after', token: cursor };
+    return this;
+  }
+  
+  /**
+   * End before a cursor (keyset pagination, replaces offset)
+   */
+  before(cursor: string): this {
+    this._cursor = { direction: 'before', token: cursor };
+    return this;
+  }
+  
+  /**
+   * Group all matching entries by a field (result.groups)
+   * Array fields put an entry in one group per element; references group by id.
+   */
+  groupBy(field: FieldPath<EntryData<T>>): this {
+    this._groupBy = field;
+    return this;
+  }
+  
+  /**
+   * Count values of fields across all matching entries (result.facets)
+   */
+  facets(fields: FieldPath<EntryData<T>> | FieldPath<EntryData<T>>[]): this {
+    this._facets.push(...(Array.isArray(fields) ? fields : [fields]));
+    return this;
+  }
+  
+  /**
+   * Compute named aggregates (result.aggregates, and per group with groupBy)
+   */
+  aggregate(aggregates: Record<string, AggregateFn<T>>): this {
+    Object.assign(this._aggregates, aggregates);
+    return this;
+  }
+  
+  /**
+   * Populate relation fields on returned entries (entry.included)
+   * Accepts reference fields and 'parent', 'children', 'siblings',
+   * 'ancestors', 'descendants'. Pass options last to control depth.
+   *
+   * @example
+   * query('blog').include('author', 'parent', { depth: 2 })
+   */
+  include(...args: Array<IncludeField<T> | IncludeOptions>): this {
+    for (const arg of args) {
+      if (typeof arg === 'string') {
+        if (!this._include.fields.includes(arg)) this._include.fields.push(arg);
+      } else if (arg.depth !== undefined) {
+        this._include.depth = arg.depth;
+      }
+    }
+    return this;
+  }
+  
   /**
    * Include relation data in results
    */
@@ -98,56 +189,53 @@ export class Query<T extends CollectionKey> {
    * Execute query and return results
    */
   async get(): Promise<QueryResult<T>> {
-    if (!this._collection) {
-      throw new Error('Collection not specified');
-    }
-    
-    // Get entries
-    let entries: CollectionEntry<T>[];
-    
-    if (Array.isArray(this._collection)) {
-      // Multiple collections
-      entries = [];
-      for (const coll of this._collection) {
-        const collEntries = await getCollection(coll);
-        entries.push(...(collEntries as CollectionEntry<T>[]));
-      }
-    } else {
-      // Single collection
-      entries = await getCollection(this._collection) as CollectionEntry<T>[];
-    }
-    
-    // Apply filters
-    if (this._filters.length > 0) {
-      entries = applyFilters(entries, this._filters);
-    }
-    
+    const entries = await this.resolveEntries();
     const total = entries.length;
     
-    // Apply sorting
-    if (this._sorts.length > 0) {
-      entries = applySorting(entries, this._sorts as any);
-    }
+    // Apply pagination (cursor window or offset)
+    const { start, end } = this.getWindow(entries);
+    let paginatedEntries = entries.slice(start, end);
     
-    // Apply pagination
-    const start = this._offset;
-    const end = this._limit ? start + this._limit : entries.length;
-    const paginatedEntries = entries.slice(start, end);
+    // Populate included relations for the returned page only
+    if (this._include.fields.length > 0) {
+      paginatedEntries = await includeRelations(paginatedEntries, this._include.fields, {
+        depth: this._include.depth,
+      });
+    }
     
     // Build result
     const result: QueryResult<T> = {
-      entries: paginatedEntries,
+      entries: paginatedEntries as IncludedEntry<T>[],
       total,
     };
     
     // Add pagination metadata
     if (this._limit) {
       const pageSize = this._limit;
-      const page = Math.floor(this._offset / pageSize) + 1;
+      const page = Math.floor(start / pageSize) + 1;
       result.page = page;
       result.pageSize = pageSize;
+      result.totalPages = Math.max(1, Math.ceil(total / pageSize));
       result.hasNext = end < entries.length;
-      result.hasPrev = this._offset > 0;
+      result.hasPrev = start > 0;
+      
+      if (result.hasNext && paginatedEntries.length > 0) {
+        result.nextCursor = encodeCursor(paginatedEntries[paginatedEntries.length - 1], this._sorts);
+      }
+      if (result.hasPrev && paginatedEntries.length > 0) {
+        result.prevCursor = encodeCursor(paginatedEntries[0], this._sorts);
+      }
+    }
+    
+    // Aggregations cover all matching entries, not just the current page
+    if (this._groupBy) {
+      result.groups = groupEntries(entries, this._groupBy, this._aggregates);
+    }
+    if (this._facets.length > 0) {
+      result.facets = facetEntries(entries, this._facets);
+    }
+    if (Object.keys(this._aggregates).length > 0) {
+      result.aggregates = runAggregates(entries, this._aggregates);
     }
     
     // Include relations if requested
@@ -165,6 +253,274 @@ export class Query<T extends CollectionKey> {
     return result;
   }
   
+  /**
+   * Split all results into pages of a fixed size
+   * Ignores limit, offset and cursors. Always returns at least one page.
+   */
+  async pages(pageSize: number): Promise<QueryPage<T>[]> {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Invalid page size: ${pageSize}`);
+    }
+    
+    const entries = await this.resolveEntries();
+    const total = entries.length;
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+    const pages: QueryPage<T>[] = [];
+    
+    for (let i = 0; i < totalPages; i++) {
+      let pageEntries = entries.slice(i * pageSize, (i + 1) * pageSize);
+      if (this._include.fields.length > 0) {
+        pageEntries = await includeRelations(pageEntries, this._include.fields, {
+          depth: this._include.depth,
+        });
+      }
+      const hasNext = i < totalPages - 1;
+      const hasPrev = i > 0;
+      
+      pages.push({
+        entries: pageEntries as IncludedEntry<T>[],
+        page: i + 1,
+        pageSize,
+        total,
+        totalPages,
+        hasNext,
+        hasPrev,
+        nextCursor: hasNext && pageEntries.length > 0
+          ? encodeCursor(pageEntries[pageEntries.length - 1], this._sorts)
+          : undefined,
+        prevCursor: hasPrev && pageEntries.length > 0
+          ? encodeCursor(pageEntries[0], this._sorts)
+          : undefined,
+      });
+    }
+    
+    return pages;
+  }
+  
+  /**
+   * Stable key describing the query shape (collections, filters, sorts)
+   * Returns undefined if any filter or sort is a hand-written closure,
+   * since its behaviour cannot be identified.
+   */
+  cacheKey(): string | undefined {
+    if (!this._collection) return undefined;
+    
+    const filters = this._filters.map(filter => getDescriptor(filter));
+    const sorts = this._sorts.map(sort =>
+      typeof sort === 'function' ? getDescriptor(sort) : sort
+    );
+    
+    if (filters.includes(undefined) || sorts.includes(undefined)) {
+      return undefined;
+    }
+    
+    const collections = Array.isArray(this._collection) ? this._collection : [this._collection];
+    const unpublished = this._unpublished ? { unpublished: true } : {};
+    return `query:${stableStringify({ collections, ...unpublished, filters, sorts })}`;
+  }
+  
+  /**
+   * Run the query stage by stage and report what each stage did
+   *
+   * Shows how many entries each filter removed, the sorts applied, the
+   * pagination window and per-stage timings. Always bypasses the query
+   * cache so timings are real; the returned entries are not included.
+   *
+   * @example
+   * const plan = await query('blog').where(whereEquals('author.id', 'jane-doe')).explain();
+   * console.log(formatExplain(plan));
+   * // query(blog): 42 loaded → 7 matched → 7 returned in 1.3ms
+   * //   load     blog 42  (0.8ms)
+   * //   filter   whereEquals(author.id = jane-doe): 42 → 7  (0.1ms)
+   */
+  async explain(): Promise<QueryExplain> {
+    if (!this._collection) {
+      throw new Error('Collection not specified');
+    }
+    
+    const collections = Array.isArray(this._collection) ? this._collection : [this._collection];
+    const startedAt = performance.now();
+    let mark = startedAt;
+    const lap = (): number => {
+      const now = performance.now();
+      const ms = roundMs(now - mark);
+      mark = now;
+      return ms;
+    };
+    
+    // Load
+    let entries = await this.loadCollections();
+    const loaded = entries.length;
+    const load = lap();
+    
+    // Filter one at a time to attribute removals
+    const filters: ExplainStep[] = [];
+    if (this._filters.length > 0) {
+      await prepareFilters(this._filters);
+    }
+    for (const filter of this._filters) {
+      const before = entries.length;
+      const filterStart = performance.now();
+      entries = applyFilters(entries, [filter]);
+      filters.push({
+        label: getFilterLabel(filter),
+        before,
+        after: entries.length,
+        ms: roundMs(performance.now() - filterStart),
+      });
+    }
+    const filter = lap();
+    
+    // Sort
+    if (this._sorts.length > 0) {
+      entries = applySorting(entries, this._sorts as any);
+    }
+    const sort = lap();
+    
+    // Paginate
+    const { start, end } = this.getWindow(entries);
+    const window = entries.slice(start, end);
+    const paginate = lap();
+    
+    // Include
+    if (this._include.fields.length > 0) {
+      await includeRelations(window, this._include.fields, { depth: this._include.depth });
+    }
+    const include = lap();
+    
+    return {
+      collections,
+      cacheKey: this.cacheKey(),
+      loaded,
+      filters,
+      sorts: this._sorts.map(sort => getSortLabel(sort)),
+      window: {
+        start,
+        end: start + window.length,
+        offset: this._offset,
+        limit: this._limit,
+        cursor: this._cursor?.direction,
+      },
+      total: entries.length,
+      returned: window.length,
+      include: [...this._include.fields],
+      timings: {
+        load,
+        filter,
+        sort,
+        paginate,
+        include,
+        total: roundMs(performance.now() - startedAt),
+      },
+    };
+  }
+  
+  /**
+   * Load, filter and sort entries (no pagination)
+   * Results are shared across queries with the same cacheKey()
+   */
+  private resolveEntries(): Promise<CollectionEntry<T>[]> {
+    if (!this._collection) {
+      return Promise.reject(new Error('Collection not specified'));
+    }
+    
+    return getCached(this.cacheKey(), () => this.loadEntries());
+  }
+  
+  /**
+   * Helper: Load, filter and sort entries without the cache
+   */
+  private async loadEntries(): Promise<CollectionEntry<T>[]> {
+    // Get entries
+    let entries = await this.loadCollections();
+    
+    // Apply filters
+    if (this._filters.length > 0) {
+      await prepareFilters(this._filters);
+      entries = applyFilters(entries, this._filters);
+    }
+    
+    // Apply sorting
+    if (this._sorts.length > 0) {
+      entries = applySorting(entries, this._sorts as any);
+    }
+    
+    return entries;
+  }
+  
+  /**
+   * Helper: Load the queried collections, without unpublished entries
+   * unless withUnpublished() was called
+   */
+  private async loadCollections(): Promise<CollectionEntry<T>[]> {
+    const collections = Array.isArray(this._collection) ? this._collection : [this._collection!];
+    
+    const entries: CollectionEntry<T>[] = [];
+    for (const coll of collections) {
+      entries.push(...await getCachedCollection(coll));
+    }
+    
+    return this._unpublished ? entries : entries.filter(entry => isPublished(entry.data));
+  }
+  
+  /**
+   * Calculate the [start, end) window for the current offset/cursor
+   */
+  private getWindow(entries: CollectionEntry<T>[]): { start: number; end: number } {
+    if (!this._cursor) {
+      const start = this._offset;
+      const end = this._limit ? start + this._limit : entries.length;
+      return { start, end };
+    }
+    
+    const boundary = this.findCursorIndex(entries, this._cursor.token);
+    
+    if (this._cursor.direction === 'after') {
+      const start = boundary.found ? boundary.index + 1 : boundary.index;
+      const end = this._limit ? start + this._limit : entries.length;
+      return { start, end };
+    }
+    
+    const end = boundary.index;
+    const start = this._limit ? Math.max(0, end - this._limit) : 0;
+    return { start, end };
+  }
+  
+  /**
+   * Locate a cursor in sorted entries
+   * Falls back to comparing sort values when the boundary entry is gone,
+   * in which case index is the position the entry would have occupied.
+   */
+  private findCursorIndex(
+    entries: CollectionEntry<T>[],
+    token: string
+  ): { index: number; found: boolean } {
+    const cursor = decodeCursor(token);
+    const exact = entries.findIndex(e => getCursorKey(e) === cursor.key);
+    
+    if (exact !== -1) {
+      return { index: exact, found: true };
+    }
+    
+    if (cursor.fields.length !== this._sorts.length) {
+      throw new Error(
+        `Query cursor for "${cursor.key}" no longer matches any entry and ` +
+        `cannot be compared by sort keys`
+      );
+    }
+    
+    const compare = sortByMultiple<T>(
+      ...this._sorts.map(sort => typeof sort === 'function' ? sort : createSortFn<T>(sort))
+    );
+    const stand = cursorToEntry<T>(cursor);
+    const index = entries.findIndex(e => {
+      const result = compare(e, stand);
+      return result > 0 || (result === 0 && getCursorKey(e) > cursor.key);
+    });
+    
+    return { index: index === -1 ? entries.length : index, found: false };
+  }
+  
   /**
    * Get first result
    */
@@ -179,6 +535,7 @@ export class Query<T extends CollectionKey> {
   async all(): Promise<CollectionEntry<T>[]> {
     this._limit = undefined;
     this._offset = 0;
+    this._cursor = undefined;
     const result = await this.get();
     return result.entries;
   }
@@ -192,6 +549,13 @@ export class Query<T extends CollectionKey> {
   }
 }
 
+/**
+ * Helper: Round a duration to hundredths of a millisecond
+ */
+function roundMs(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
 /**
  * Create a new query
  */
@@ -202,12 +566,28 @@ export function query<T extends CollectionKey>(collection?: T | T[]): Query<T> {
 /**
  * Quick query helpers
  */
+
+/**
+ * Find an entry by id
+ * Uses the relationship graph's byCollection index; collections outside the
+ * graph (menus, menu-items) and raw entry ids fall back to a scan. Like
+ * query(), only returns published entries (see isPublished).
+ */
 export async function find<T extends CollectionKey>(
   collection: T,
   id: string
 ): Promise<CollectionEntry<T> | undefined> {
-  const entries = await getCollection(collection);
-  return entries.find(e => e.id === id) as CollectionEntry<T> | undefined;
+  const graph = await getOrBuildGraph();
+  const key = normalizeId(id);
+  
+  if (graph.indexes.byCollection.get(collection)?.has(key)) {
+    return graph.nodes.get(collection)?.get(key)?.entry as CollectionEntry<T> | undefined;
+  }
+  
+  const entries = await getCachedCollection(collection);
+  return entries.find(e =>
+    (normalizeId(e.id) === key || getQueryKey(e) === key) && isPublished(e.data)
+  );
 }
 
 export async function findWhere<T extends CollectionKey>(
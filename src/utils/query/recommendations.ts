@@ -0,0 +1,236 @@
+// src/utils/query/recommendations.ts
+/**
+ * Related Content Recommendations
+ *
+ * Ranks entries related to a given entry using the relationship graph.
+ * Candidates that share nothing with the entry are never recommended;
+ * recency only reorders related candidates.
+ *
+ * Score = shared references (same author, same parent)
+ *       + direct references between the two
+ *       + shared tag / technology / category values
+ *       + indirect relations (weaker with depth)
+ *       + recency bonus
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import {
+  type RelationMap,
+  type Recommendation,
+  type RecommendationOptions,
+  type RecommendationReason,
+  type RecommendationWeights,
+  getEntryKey,
+} from './types';
+import { getOrBuildGraph, getRelationMap } from './graph';
+import { getFieldValue } from './fieldPath';
+import { normalizeId } from './helpers';
+import { isPublished } from '@/utils/publishing';
+
+const DEFAULT_WEIGHTS: RecommendationWeights = {
+  sharedReference: 3,
+  directReference: 4,
+  sharedValue: 2,
+  indirect: 2,
+  recency: 1,
+};
+
+const DEFAULT_FIELDS = ['tags', 'technologies', 'category'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get entries related to an entry, best match first
+ *
+ * @example
+ * const related = await getRecommendations('blog', 'first-post', { limit: 3 });
+ * related[0].reasons;
+ * // [{ type: 'shared-reference', detail: 'author → authors:jane-doe', score: 3 },
+ * //  { type: 'shared-value', detail: 'tags: astro', score: 2 }, ...]
+ *
+ * // Case studies for a service
+ * await getRecommendations('services', 'web-development', { collections: ['portfolio'] });
+ *
+ * // Reproducible ranking, independent of the build date
+ * await getRecommendations('blog', 'first-post', { now: new Date('2025-01-01') });
+ */
+export async function getRecommendations<T extends CollectionKey>(
+  collection: T,
+  id: string,
+  options: RecommendationOptions = {}
+): Promise<Recommendation[]> {
+  const {
+    limit = 5,
+    collections = [collection],
+    fields = DEFAULT_FIELDS,
+    dateField = 'publishDate',
+    recencyHalfLife = 180,
+    now = startOfDay(new Date()),
+  } = options;
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  
+  const cleanId = normalizeId(id);
+  const graph = await getOrBuildGraph();
+  const source = getRelationMap(graph, collection, cleanId);
+  
+  if (!source) {
+    throw new Error(`Entry not found: ${collection}/${cleanId}`);
+  }
+  
+  const sourceKey = getEntryKey(collection, cleanId);
+  const sourceTargets = getTargets(source);
+  const sourceValues = getValues(source.entry, fields);
+  
+  const recommendations: Recommendation[] = [];
+  
+  for (const candidateCollection of collections) {
+    for (const [candidateId, candidate] of graph.nodes.get(candidateCollection) ?? []) {
+      const candidateKey = getEntryKey(candidateCollection, candidateId);
+      if (candidateKey === sourceKey) continue;
+      if (!isPublished(candidate.entry.data)) continue;
+      
+      const reasons: RecommendationReason[] = [];
+      
+      // Shared references: both point to the same entry
+      for (const [target, field] of getTargets(candidate)) {
+        if (target !== sourceKey && sourceTargets.has(target)) {
+          reasons.push({
+            type: 'shared-reference',
+            detail: `${field} → ${target}`,
+            score: weights.sharedReference,
+          });
+        }
+      }
+      
+      // Direct references: one points to the other
+      const direct = sourceTargets.get(candidateKey) ?? getTargets(candidate).get(sourceKey);
+      if (direct) {
+        reasons.push({
+          type: 'direct-reference',
+          detail: direct,
+          score: weights.directReference,
+        });
+      }
+      
+      // Shared field values
+      const candidateValues = getValues(candidate.entry, fields);
+      for (const field of fields) {
+        for (const value of candidateValues.get(field) ?? []) {
+          if (sourceValues.get(field)?.has(value)) {
+            reasons.push({
+              type: 'shared-value',
+              detail: `${field}: ${value}`,
+              score: weights.sharedValue,
+            });
+          }
+        }
+      }
+      
+      // Indirect relations in either direction, weaker with depth
+      const depth = getIndirectDepth(source, candidateCollection, candidateId)
+        ?? getIndirectDepth(candidate, collection, cleanId);
+      if (!direct && depth) {
+        reasons.push({
+          type: 'indirect',
+          detail: `${depth} hops`,
+          score: weights.indirect / depth,
+        });
+      }
+      
+      // Only related candidates are recommended
+      if (reasons.length === 0) continue;
+      
+      // Recency: halves every recencyHalfLife days (whole days, so rebuilds
+      // on the same day rank the same)
+      const date = getDate(candidate.entry, dateField);
+      if (date && weights.recency > 0) {
+        const ageDays = Math.max(0, Math.floor((now.getTime() - date.getTime()) / DAY_MS));
+        reasons.push({
+          type: 'recency',
+          detail: date.toISOString().slice(0, 10),
+          score: weights.recency * Math.pow(0.5, ageDays / recencyHalfLife),
+        });
+      }
+      
+      recommendations.push({
+        entry: candidate.entry,
+        score: reasons.reduce((total, reason) => total + reason.score, 0),
+        reasons,
+      });
+    }
+  }
+  
+  return recommendations
+    .sort((a, b) =>
+      b.score - a.score ||
+      (getDate(b.entry, dateField)?.getTime() ?? 0) - (getDate(a.entry, dateField)?.getTime() ?? 0)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Helper: Entries a node points to (references and parent), key → field
+ */
+function getTargets(relationMap: RelationMap): Map<string, string> {
+  const targets = new Map<string, string>();
+  
+  for (const ref of relationMap.references) {
+    targets.set(getEntryKey(ref.collection, ref.id), ref.field ?? 'reference');
+  }
+  if (relationMap.parent) {
+    targets.set(getEntryKey(relationMap.parent.collection, relationMap.parent.id), 'parent');
+  }
+  
+  return targets;
+}
+
+/**
+ * Helper: Normalized values of the compared fields (strings or string arrays)
+ */
+function getValues(
+  entry: CollectionEntry<CollectionKey>,
+  fields: string[]
+): Map<string, Set<string>> {
+  const values = new Map<string, Set<string>>();
+  
+  for (const field of fields) {
+    const value = getFieldValue(entry.data, field);
+    const list = Array.isArray(value) ? value : [value];
+    values.set(field, new Set(
+      list
+        .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+        .map(item => item.trim().toLowerCase())
+    ));
+  }
+  
+  return values;
+}
+
+/**
+ * Helper: Depth of the indirect relation from a node to an entry
+ */
+function getIndirectDepth(
+  relationMap: RelationMap,
+  collection: CollectionKey,
+  id: string
+): number | undefined {
+  return relationMap.indirect.find(rel => rel.collection === collection && rel.id === id)?.depth;
+}
+
+/**
+ * Helper: Date field of an entry, if valid
+ */
+function getDate(entry: CollectionEntry<CollectionKey>, field: string): Date | undefined {
+  const value = getFieldValue(entry.data, field);
+  if (!value) return undefined;
+  
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Helper: Midnight (UTC) of a date
+ */
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
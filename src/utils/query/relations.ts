@@ -12,6 +12,7 @@ import {
   type Relation, 
   type RelationMap,
   type RelationType,
+  type InverseField,
 } from './types';
 import { getRelationMap, getOrBuildGraph } from './graph';
 
@@ -36,6 +37,9 @@ export async function getRelations(
       ...relationMap,
       references: filterByType(relationMap.references, types),
       referencedBy: filterByType(relationMap.referencedBy, types),
+      inverse: Object.fromEntries(
+        Object.entries(relationMap.inverse).map(([name, rels]) => [name, filterByType(rels, types)])
+      ),
       children: filterByType(relationMap.children, types),
       siblings: filterByType(relationMap.siblings, types),
       ancestors: filterByType(relationMap.ancestors, types),
@@ -119,6 +123,33 @@ export async function getReferencingEntries<T extends CollectionKey>(
   return relations;
 }
 
+/**
+ * Get entries on the other side of a declared inverse relation
+ *
+ * Inverse names come from `relations` in src/content/config.ts.
+ *
+ * @example
+ * // blog: { author: { to: 'authors', inverse: 'posts' } }
+ * const posts = await getInverseRelations('authors', 'jane-doe', 'posts', { resolve: true });
+ */
+export async function getInverseRelations<T extends CollectionKey>(
+  collection: T,
+  id: string,
+  name: InverseField<T>,
+  options: { resolve?: boolean } = {}
+): Promise<Relation[]> {
+  const { resolve = false } = options;
+  const relationMap = await getRelations(collection, id);
+  const relations = [...(relationMap.inverse[name] ?? [])];
+  
+  // Resolve entries if requested
+  if (resolve) {
+    await resolveRelations(relations);
+  }
+  
+  return relations;
+}
+
 /**
  * Get all related entries (both directions)
  */
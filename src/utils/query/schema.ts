@@ -7,6 +7,9 @@
 
 import { z, reference } from 'astro:content';
 import type { CollectionKey } from 'astro:content';
+import { getCollectionNames } from '@/utils/collections';
+import { relations } from '@/content/config';
+import type { RelationCardinality, RelationDeclaration } from '@/content/schema';
 
 /**
  * Create a relation field schema for a collection
@@ -65,6 +68,8 @@ export interface RelationConfig {
   field: string;
   targetCollections: CollectionKey[];
   isArray: boolean;
+  inverse?: string;                   // Declared name of the reverse relation
+  cardinality?: RelationCardinality;  // Declared cardinality
 }
 
 /**
@@ -100,6 +105,94 @@ export function extractRelationConfig(
   return configs;
 }
 
+/**
+ * Get the relations declared for a collection in config.ts
+ * Returns undefined for collections without declarations.
+ */
+export function getRelationDeclarations(
+  collection: CollectionKey
+): Record<string, RelationDeclaration> | undefined {
+  return (relations as Partial<Record<CollectionKey, Record<string, RelationDeclaration>>>)[collection];
+}
+
+/**
+ * Get the relation fields of an entry
+ *
+ * Collections with declared relations only use the declared fields, which
+ * may also hold plain ids; other collections fall back to sniffing fields
+ * that hold references (extractRelationConfig).
+ *
+ * @example
+ * getRelationConfig('blog', post.data)
+ * // [{ field: 'author', targetCollections: ['authors'], isArray: false,
+ * //    inverse: 'posts', cardinality: 'many-to-one' }]
+ */
+export function getRelationConfig(
+  collection: CollectionKey,
+  data: Record<string, any>
+): RelationConfig[] {
+  const declarations = getRelationDeclarations(collection);
+  if (!declarations) return extractRelationConfig(data);
+  
+  return Object.entries(declarations)
+    .filter(([field]) => data?.[field] !== undefined && data[field] !== null)
+    .map(([field, declaration]) => ({
+      field,
+      targetCollections: getDeclaredTargets(declaration),
+      isArray: Array.isArray(data[field]),
+      inverse: declaration.inverse,
+      cardinality: declaration.cardinality,
+    }));
+}
+
+/**
+ * Get the references a relation field holds
+ * Plain ids are accepted when the field targets a single collection.
+ */
+export function getFieldReferences(
+  config: RelationConfig,
+  value: any
+): Array<{ collection: CollectionKey; id: string }> {
+  const values = Array.isArray(value) ? value : [value];
+  const [target] = config.targetCollections;
+  
+  return values.flatMap(item => {
+    if (isCollectionReference(item)) return [item];
+    if (typeof item === 'string' && item && config.targetCollections.length === 1) {
+      return [{ collection: target, id: item }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Get the cardinality of a declared inverse relation on a collection
+ * Returns undefined when no relation declares that inverse name.
+ *
+ * @example
+ * getInverseCardinality('authors', 'posts') // 'many-to-one'
+ */
+export function getInverseCardinality(
+  collection: CollectionKey,
+  name: string
+): RelationCardinality | undefined {
+  for (const declarations of Object.values(relations) as Array<Record<string, RelationDeclaration>>) {
+    for (const declaration of Object.values(declarations)) {
+      if (declaration.inverse === name && getDeclaredTargets(declaration).includes(collection)) {
+        return declaration.cardinality ?? 'many-to-many';
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the target collections of a declared relation
+ */
+export function getDeclaredTargets(declaration: RelationDeclaration): CollectionKey[] {
+  return Array.isArray(declaration.to) ? [...declaration.to] : [declaration.to as CollectionKey];
+}
+
 /**
  * Normalize reference value to array
  */
@@ -112,6 +205,38 @@ export function normalizeReference(
   return [];
 }
 
+/**
+ * Resolve the hierarchy parent an entry declares
+ *
+ * Accepts a reference ({ collection, id }), "collection/id" for a parent in
+ * another collection, or a bare id for a parent in the entry's own collection.
+ *
+ * @example
+ * getParentReference({ parent: 'services/web-development' }, 'portfolio')
+ * // { collection: 'services', id: 'web-development' }
+ * getParentReference({ parent: 'getting-started' }, 'faq')
+ * // { collection: 'faq', id: 'getting-started' }
+ */
+export function getParentReference(
+  data: Record<string, any>,
+  collection: CollectionKey
+): { collection: CollectionKey; id: string } | undefined {
+  const value = data?.parent;
+  const [ref] = normalizeReference(value);
+  if (ref) return ref;
+  if (typeof value !== 'string' || !value) return undefined;
+  
+  const slash = value.indexOf('/');
+  if (slash > 0) {
+    const prefix = value.slice(0, slash);
+    if (getCollectionNames().includes(prefix)) {
+      return { collection: prefix as CollectionKey, id: value.slice(slash + 1) };
+    }
+  }
+  
+  return { collection, id: value };
+}
+
 /**
  * Check if a field is a parent field
  */
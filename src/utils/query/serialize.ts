@@ -0,0 +1,225 @@
+// src/utils/query/serialize.ts
+/**
+ * Relationship Graph Serializers
+ *
+ * Emit a RelationshipGraph as JSON, Graphviz DOT or Mermaid, for visualizing
+ * how entries interlink. Only primary edges are emitted (references, parents
+ * and optionally indirect relations); the inverse relations are implied.
+ *
+ *   toGraphJSON(graph, { collections: ['blog', 'authors'] })
+ *   toDot(graph)      // dot -Tsvg graph.dot > graph.svg
+ *   toMermaid(graph)  // paste into a ```mermaid block
+ */
+
+import type { CollectionKey } from 'astro:content';
+import { getEntryUrl } from '@/utils/collections';
+import {
+  type RelationshipGraph,
+  type GraphEdgeType,
+  type GraphExport,
+  type GraphExportEdge,
+  type GraphExportNode,
+  type GraphExportOptions,
+  getEntryKey,
+} from './types';
+
+const DEFAULT_EDGE_TYPES: GraphEdgeType[] = ['reference', 'parent'];
+
+/**
+ * Serialize a graph to plain nodes and typed edges
+ *
+ * @example
+ * const data = toGraphJSON(await getOrBuildGraph(), { relationTypes: ['reference'] });
+ * // { collections: [...], nodes: [{ key: 'blog:first-post', ... }],
+ * //   edges: [{ from: 'blog:first-post', to: 'authors:jane-doe', type: 'reference', field: 'author' }] }
+ */
+export function toGraphJSON(
+  graph: RelationshipGraph,
+  options: GraphExportOptions = {}
+): GraphExport {
+  const {
+    collections = graph.collections,
+    relationTypes = DEFAULT_EDGE_TYPES,
+    includeIsolated = true,
+  } = options;
+  const types = new Set(relationTypes);
+
+  const nodes: GraphExportNode[] = [];
+  for (const collection of collections) {
+    for (const [id, relationMap] of graph.nodes.get(collection) ?? []) {
+      const data = relationMap.entry.data as { title?: string };
+      nodes.push({
+        key: getEntryKey(collection, id),
+        collection,
+        id,
+        title: data.title ?? id,
+        url: getEntryUrl(relationMap.entry, undefined, graph),
+        depth: relationMap.depth,
+      });
+    }
+  }
+
+  // Edges only between exported entries (dangling references are dropped)
+  const keys = new Set(nodes.map(node => node.key));
+  const edges: GraphExportEdge[] = [];
+  const addEdge = (edge: GraphExportEdge): void => {
+    if (keys.has(edge.from) && keys.has(edge.to)) edges.push(edge);
+  };
+
+  for (const node of nodes) {
+    const relationMap = graph.nodes.get(node.collection)!.get(node.id)!;
+
+    if (types.has('reference')) {
+      for (const ref of relationMap.references) {
+        addEdge({
+          from: node.key,
+          to: getEntryKey(ref.collection, ref.id),
+          type: 'reference',
+          field: ref.field,
+        });
+      }
+    }
+
+    if (types.has('parent') && relationMap.parent) {
+      addEdge({
+        from: node.key,
+        to: getEntryKey(relationMap.parent.collection, relationMap.parent.id),
+        type: 'parent',
+        field: 'parent',
+      });
+    }
+
+    if (types.has('indirect')) {
+      for (const rel of relationMap.indirect) {
+        addEdge({
+          from: node.key,
+          to: getEntryKey(rel.collection, rel.id),
+          type: 'indirect',
+          depth: rel.depth,
+        });
+      }
+    }
+  }
+
+  const linked = new Set(edges.flatMap(edge => [edge.from, edge.to]));
+
+  return {
+    collections: [...collections],
+    nodes: includeIsolated ? nodes : nodes.filter(node => linked.has(node.key)),
+    edges,
+  };
+}
+
+/**
+ * Serialize a graph as Graphviz DOT
+ * Collections become clusters; parent edges are dashed, indirect edges dotted.
+ *
+ * @example
+ * await fs.writeFile('graph.dot', toDot(graph));
+ * // dot -Tsvg graph.dot > graph.svg
+ */
+export function toDot(
+  graph: RelationshipGraph,
+  options: GraphExportOptions = {}
+): string {
+  const { nodes, edges } = toGraphJSON(graph, options);
+  const lines = [
+    'digraph content {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#f8fafc", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const [collection, members] of groupByCollection(nodes)) {
+    lines.push(`  subgraph ${dotString(`cluster_${collection}`)} {`);
+    lines.push(`    label=${dotString(collection)};`);
+    for (const node of members) {
+      lines.push(`    ${dotString(node.key)} [label=${dotString(node.title)}];`);
+    }
+    lines.push('  }');
+  }
+
+  for (const edge of edges) {
+    const attrs = [`label=${dotString(getEdgeLabel(edge))}`];
+    if (edge.type === 'parent') attrs.push('style=dashed');
+    if (edge.type === 'indirect') attrs.push('style=dotted', 'color=gray');
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attrs.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a graph as a Mermaid flowchart
+ * Collections become subgraphs; parent edges are dashed, indirect edges gray and dotted.
+ *
+ * @example
+ * const diagram = toMermaid(graph, { collections: ['blog', 'authors'] });
+ */
+export function toMermaid(
+  graph: RelationshipGraph,
+  options: GraphExportOptions = {}
+): string {
+  const { nodes, edges } = toGraphJSON(graph, options);
+  const lines = ['flowchart LR'];
+
+  // Mermaid ids must be plain identifiers, so entries are numbered
+  const ids = new Map(nodes.map((node, i) => [node.key, `n${i}`]));
+
+  Array.from(groupByCollection(nodes)).forEach(([collection, members], i) => {
+    lines.push(`  subgraph c${i}[${mermaidString(collection)}]`);
+    for (const node of members) {
+      lines.push(`    ${ids.get(node.key)}[${mermaidString(node.title)}]`);
+    }
+    lines.push('  end');
+  });
+
+  // Mermaid has no dotted arrow: indirect edges are restyled by link index
+  const indirect: number[] = [];
+  edges.forEach((edge, i) => {
+    const arrow = edge.type === 'reference' ? '-->' : '-.->';
+    if (edge.type === 'indirect') indirect.push(i);
+    lines.push(`  ${ids.get(edge.from)} ${arrow}|${mermaidString(getEdgeLabel(edge))}| ${ids.get(edge.to)}`);
+  });
+
+  if (indirect.length > 0) {
+    lines.push(`  linkStyle ${indirect.join(',')} stroke:gray,stroke-dasharray:2 4`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Helper: Group exported nodes by collection, keeping order
+ */
+function groupByCollection(nodes: GraphExportNode[]): Map<CollectionKey, GraphExportNode[]> {
+  const groups = new Map<CollectionKey, GraphExportNode[]>();
+  for (const node of nodes) {
+    if (!groups.has(node.collection)) groups.set(node.collection, []);
+    groups.get(node.collection)!.push(node);
+  }
+  return groups;
+}
+
+/**
+ * Helper: Edge label (field for references, hops for indirect relations)
+ */
+function getEdgeLabel(edge: GraphExportEdge): string {
+  if (edge.type === 'indirect') return `indirect (${edge.depth})`;
+  return edge.field ?? edge.type;
+}
+
+/**
+ * Helper: Quoted DOT string
+ */
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Helper: Quoted Mermaid label
+ */
+function mermaidString(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
@@ -6,7 +6,7 @@
  * These will make it easier to reuse complex queries
  */
 
-import { query, whereEquals, whereArrayContains, sortByDate, sortByOrder, and, or } from '@/utils/query';
+import { query, whereEquals, whereArrayContains, whereStatus, sortByDate, sortByOrder, and, or } from '@/utils/query';
 import type { CollectionKey } from 'astro:content';
 
 // ============================================================================
@@ -26,6 +26,13 @@ import type { CollectionKey } from 'astro:content';
 //     .orderBy(sortByDate('publishDate', 'desc'))
 //     .limit(limit);
 
+// Drafts and scheduled items (newest first), e.g. for a preview dashboard
+export const drafts = (collection: CollectionKey) =>
+  query(collection)
+    .withUnpublished()
+    .where(whereStatus('draft', 'scheduled'))
+    .orderBy(sortByDate('publishDate', 'desc'));
+
 // TODO: Items by tag(s)
 // export const byTag = (collection: CollectionKey, tags: string | string[], limit?: number) => {}
 
@@ -103,5 +110,5 @@ import type { CollectionKey } from 'astro:content';
 // ============================================================================
 
 export const snippets = {
-  // Will be populated with the above functions
+  drafts,
 };
\ No newline at end of file
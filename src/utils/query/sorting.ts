@@ -3,28 +3,86 @@
  * Sorting Utilities
  * 
  * Type-safe sorting functions for query operations.
+ * Field names accept dotted paths and array indexes ('seo.metaTitle', 'tags[0]')
+ * and are checked against the collection schema (see FieldPath).
  */
 
 import type { CollectionEntry, CollectionKey } from 'astro:content';
-import type { SortFn, SortConfig } from './types';
+import type { EntryData, FieldPath, SortFn, SortConfig, SortKey } from './types';
+import { describe } from './describe';
+import { getFieldValue } from './fieldPath';
+
+/**
+ * Options for field sorts
+ */
+export interface SortOptions {
+  nullsFirst?: boolean;   // Pin missing values to the start (true) or end (false)
+}
+
+/**
+ * Sort keys for sort functions built by the helpers below
+ * Lets cursors and other tooling see which field a closure sorts on
+ */
+const sortKeys = new WeakMap<Function, SortKey>();
+
+/**
+ * Get the sort key (field + direction) of a sort function, if known
+ */
+export function getSortKey(sort: SortFn<any>): SortKey | undefined {
+  return sortKeys.get(sort);
+}
+
+/**
+ * Helper: Register the sort key and descriptor for a sort function
+ */
+function withSortKey<T extends CollectionKey>(
+  fn: SortFn<T>,
+  name: string,
+  key: SortKey,
+  options: SortOptions = {}
+): SortFn<T> {
+  sortKeys.set(fn, key);
+  const args: unknown[] = [key.field, key.direction];
+  if (options.nullsFirst !== undefined) args.push({ nullsFirst: options.nullsFirst });
+  return describe(fn, name, args);
+}
+
+/**
+ * Helper: Order missing (null/undefined) values
+ * Returns undefined when both values are present.
+ */
+function compareMissing(
+  aMissing: boolean,
+  bMissing: boolean,
+  nullsFirst: boolean
+): number | undefined {
+  if (aMissing && bMissing) return 0;
+  if (!aMissing && !bMissing) return undefined;
+  return aMissing === nullsFirst ? -1 : 1;
+}
 
 /**
  * Create a sort function for a field
+ * Missing values sort last ascending and first descending, unless
+ * options.nullsFirst pins them.
  */
-export function sortBy<T extends CollectionKey>(
-  field: string,
-  direction: 'asc' | 'desc' = 'asc'
+export function sortBy<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P,
+  direction: 'asc' | 'desc' = 'asc',
+  options: SortOptions = {}
 ): SortFn<T> {
-  return (a: CollectionEntry<T>, b: CollectionEntry<T>) => {
-    const aData = a.data as any;
-    const bData = b.data as any;
-    const aValue = aData[field];
-    const bValue = bData[field];
+  const nullsFirst = options.nullsFirst ?? direction === 'desc';
+  
+  return withSortKey<T>((a: CollectionEntry<T>, b: CollectionEntry<T>) => {
+    const aValue = getFieldValue(a.data, field);
+    const bValue = getFieldValue(b.data, field);
     
     // Handle null/undefined
-    if (aValue == null && bValue == null) return 0;
-    if (aValue == null) return direction === 'asc' ? 1 : -1;
-    if (bValue == null) return direction === 'asc' ? -1 : 1;
+    const missing = compareMissing(aValue == null, bValue == null, nullsFirst);
+    if (missing !== undefined) return missing;
     
     // Compare values
     let result = 0;
@@ -38,29 +96,36 @@ export function sortBy<T extends CollectionKey>(
     }
     
     return direction === 'asc' ? result : -result;
-  };
+  }, 'sortBy', { field, direction }, options);
 }
 
 /**
  * Sort by publish date (most recent first)
+ * Undated entries sort last descending and first ascending, unless
+ * options.nullsFirst pins them.
  */
-export function sortByDate<T extends CollectionKey>(
-  field: string = 'publishDate',
-  direction: 'asc' | 'desc' = 'desc'
+export function sortByDate<
+  T extends CollectionKey,
+  P extends FieldPath<EntryData<T>> = FieldPath<EntryData<T>>
+>(
+  field: P = 'publishDate' as P,
+  direction: 'asc' | 'desc' = 'desc',
+  options: SortOptions = {}
 ): SortFn<T> {
-  return (a: CollectionEntry<T>, b: CollectionEntry<T>) => {
-    const aData = a.data as any;
-    const bData = b.data as any;
-    const aDate = aData[field] ? new Date(aData[field]) : null;
-    const bDate = bData[field] ? new Date(bData[field]) : null;
+  const nullsFirst = options.nullsFirst ?? direction === 'asc';
+  
+  return withSortKey<T>((a: CollectionEntry<T>, b: CollectionEntry<T>) => {
+    const aRaw = getFieldValue(a.data, field);
+    const bRaw = getFieldValue(b.data, field);
+    const aDate = aRaw ? new Date(aRaw) : null;
+    const bDate = bRaw ? new Date(bRaw) : null;
     
-    if (!aDate && !bDate) return 0;
-    if (!aDate) return direction === 'desc' ? 1 : -1;
-    if (!bDate) return direction === 'desc' ? -1 : 1;
+    const missing = compareMissing(!aDate, !bDate, nullsFirst);
+    if (missing !== undefined) return missing;
     
-    const diff = aDate.getTime() - bDate.getTime();
+    const diff = aDate!.getTime() - bDate!.getTime();
     return direction === 'asc' ? diff : -diff;
-  };
+  }, 'sortByDate', { field, direction }, options);
 }
 
 /**
@@ -69,7 +134,7 @@ export function sortByDate<T extends CollectionKey>(
 export function sortByTitle<T extends CollectionKey>(
   direction: 'asc' | 'desc' = 'asc'
 ): SortFn<T> {
-  return sortBy('title', direction);
+  return sortBy<T>('title' as FieldPath<EntryData<T>>, direction);
 }
 
 /**
@@ -78,7 +143,7 @@ export function sortByTitle<T extends CollectionKey>(
 export function sortByOrder<T extends CollectionKey>(
   direction: 'asc' | 'desc' = 'asc'
 ): SortFn<T> {
-  return sortBy('order', direction);
+  return sortBy<T>('order' as FieldPath<EntryData<T>>, direction);
 }
 
 /**
@@ -87,22 +152,22 @@ export function sortByOrder<T extends CollectionKey>(
 export function sortByMultiple<T extends CollectionKey>(
   ...sortFns: SortFn<T>[]
 ): SortFn<T> {
-  return (a: CollectionEntry<T>, b: CollectionEntry<T>) => {
+  return describe((a: CollectionEntry<T>, b: CollectionEntry<T>) => {
     for (const sortFn of sortFns) {
       const result = sortFn(a, b);
       if (result !== 0) return result;
     }
     return 0;
-  };
+  }, 'sortByMultiple', sortFns);
 }
 
 /**
  * Create sort function from config
  */
 export function createSortFn<T extends CollectionKey>(
-  config: SortConfig
+  config: SortConfig<T>
 ): SortFn<T> {
-  return sortBy(config.field, config.direction);
+  return sortBy<T>(config.field, config.direction, { nullsFirst: config.nullsFirst });
 }
 
 /**
@@ -110,11 +175,11 @@ export function createSortFn<T extends CollectionKey>(
  */
 export function applySorting<T extends CollectionKey>(
   entries: CollectionEntry<T>[],
-  sort: SortFn<T> | SortFn<T>[] | SortConfig[]
+  sort: SortFn<T> | SortFn<T>[] | SortConfig<T>[]
 ): CollectionEntry<T>[] {
   // Convert configs to functions
   if (Array.isArray(sort) && sort.length > 0 && 'field' in sort[0]) {
-    const sortFns = (sort as SortConfig[]).map(config => createSortFn<T>(config));
+    const sortFns = (sort as SortConfig<T>[]).map(config => createSortFn<T>(config));
     return [...entries].sort(sortByMultiple(...sortFns));
   }
   
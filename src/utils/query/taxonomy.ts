@@ -0,0 +1,177 @@
+// src/utils/query/taxonomy.ts
+/**
+ * Taxonomy Terms
+ *
+ * Turns the values of a field (tags, category, technologies) into terms with
+ * slugified URLs and counts, for the archive pages declared by `taxonomies`
+ * in _meta.mdx:
+ *
+ *   /blog/tags                  ← term index (all tags with counts)
+ *   /blog/tags/web-development  ← entries tagged "web development"
+ *
+ * Values that slugify to the same term ("Web Development", "web development")
+ * are merged. Reference fields use the referenced id. Taxonomy URLs that an
+ * item page already uses fail the build (see assertTaxonomyUrlsFree).
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { TaxonomyConfig } from '@/content/schema';
+import type { FilterFn } from './types';
+import type { Query } from './query';
+import { describe } from './describe';
+import { getFieldValues, getValueKey } from './aggregates';
+import { getOrBuildGraph } from './graph';
+import { getQueryKey } from './helpers';
+import { getEntryUrl } from '@/utils/collections';
+import { slugify } from '@/utils/string';
+
+/**
+ * One value of a taxonomy field
+ */
+export interface TaxonomyTerm<T extends CollectionKey = CollectionKey> {
+  slug: string;                   // URL segment
+  label: string;                  // Value as first seen (e.g. 'Web Development')
+  count: number;                  // Number of entries with the term
+  url: string;                    // Term page URL
+  entries: CollectionEntry<T>[];  // Entries with the term, in query order
+}
+
+/**
+ * Get the terms of a taxonomy
+ *
+ * @param q - Entries to collect terms from (e.g. the collection's index query)
+ * @param collection - Collection the taxonomy belongs to (for URLs)
+ * @param taxonomy - Taxonomy from _meta.mdx
+ * @returns Terms ordered by taxonomy.sort (name, or count descending)
+ * @example
+ * const tags = await getTaxonomyTerms(query('blog'), 'blog', { field: 'tags', sort: 'name' });
+ * // [{ slug: 'astro', label: 'astro', count: 3, url: '/blog/tags/astro', entries: [...] }, ...]
+ */
+export async function getTaxonomyTerms<T extends CollectionKey>(
+  q: Query<T>,
+  collection: string,
+  taxonomy: TaxonomyConfig
+): Promise<TaxonomyTerm<T>[]> {
+  const { entries } = await q.get();
+  const terms = new Map<string, TaxonomyTerm<T>>();
+
+  for (const entry of entries) {
+    const seen = new Set<string>();
+
+    for (const value of getFieldValues(entry, taxonomy.field)) {
+      const slug = getTermSlug(value);
+      if (!slug || seen.has(slug)) continue;
+      seen.add(slug);
+
+      let term = terms.get(slug);
+      if (!term) {
+        term = {
+          slug,
+          label: getValueKey(value),
+          count: 0,
+          url: getTaxonomyUrl(collection, taxonomy, slug),
+          entries: [],
+        };
+        terms.set(slug, term);
+      }
+      term.entries.push(entry as CollectionEntry<T>);
+      term.count++;
+    }
+  }
+
+  const byName = (a: TaxonomyTerm<T>, b: TaxonomyTerm<T>) => a.label.localeCompare(b.label);
+
+  return Array.from(terms.values()).sort(taxonomy.sort === 'count'
+    ? (a, b) => b.count - a.count || byName(a, b)
+    : byName);
+}
+
+/**
+ * Create a filter for entries with a taxonomy term
+ *
+ * @param field - Taxonomy field
+ * @param slug - Term slug (see getTermSlug)
+ * @example
+ * query('portfolio').where(whereTerm('category', 'e-commerce'))
+ */
+export function whereTerm<T extends CollectionKey>(field: string, slug: string): FilterFn<T> {
+  return describe((entry: CollectionEntry<T>) =>
+    getFieldValues(entry, field).some(value => getTermSlug(value) === slug),
+  'whereTerm', [field, slug]);
+}
+
+/**
+ * Get the URL slug of a field value
+ *
+ * @example
+ * getTermSlug('Web Development') // 'web-development'
+ * getTermSlug({ collection: 'authors', id: 'jane-doe' }) // 'jane-doe'
+ */
+export function getTermSlug(value: unknown): string {
+  return slugify(getValueKey(value));
+}
+
+/**
+ * Get the URL segment of a taxonomy (its path, or the slugified field)
+ */
+export function getTaxonomyPath(taxonomy: Pick<TaxonomyConfig, 'field' | 'path'>): string {
+  return taxonomy.path ?? slugify(taxonomy.field);
+}
+
+/**
+ * Get the URL of a taxonomy's term index, or of one term
+ *
+ * @example
+ * getTaxonomyUrl('portfolio', { field: 'category' }) // '/portfolio/category'
+ * getTaxonomyUrl('blog', { field: 'tags' }, 'astro') // '/blog/tags/astro'
+ */
+export function getTaxonomyUrl(
+  collection: string,
+  taxonomy: Pick<TaxonomyConfig, 'field' | 'path'>,
+  slug?: string
+): string {
+  const base = `/${collection}/${getTaxonomyPath(taxonomy)}`;
+  return slug ? `${base}/${slug}` : base;
+}
+
+/**
+ * Make sure no item page uses a taxonomy URL
+ *
+ * Term indexes (/portfolio/category) have the same shape as item pages
+ * (/portfolio/[slug]), so an item whose slug equals a taxonomy path would
+ * silently collide with it. Fails the build instead, the same way
+ * buildRedirectConfig() does for conflicting redirects.
+ *
+ * @param urls - Taxonomy page URLs about to be generated
+ * @throws Error if any of them is also an item page
+ * @example
+ * await assertTaxonomyUrlsFree(['/portfolio/category', '/blog/tags']);
+ */
+export async function assertTaxonomyUrlsFree(urls: string[]): Promise<void> {
+  const graph = await getOrBuildGraph();
+  const taxonomyUrls = new Set(urls.map(stripTrailingSlash));
+  const errors: string[] = [];
+
+  for (const collectionMap of graph.nodes.values()) {
+    for (const { entry } of collectionMap.values()) {
+      const url = getEntryUrl(entry, undefined, graph);
+      if (url && taxonomyUrls.has(stripTrailingSlash(url))) {
+        errors.push(`"${url}" is both a taxonomy page and the page of ${entry.collection}/${getQueryKey(entry)}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    console.error('\n❌ Taxonomy URL conflicts:');
+    errors.forEach(error => console.error(`  ${error}`));
+    console.error('');
+    throw new Error('Taxonomy pages conflict with item pages. Rename the items or set a different taxonomy path in _meta.mdx.');
+  }
+}
+
+/**
+ * Helper: Compare URLs with and without a trailing slash alike
+ */
+function stripTrailingSlash(url: string): string {
+  return url.length > 1 ? url.replace(/\/+$/, '') : url;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { relations } from '@/content/config';
 
 /**
  * Relationship types in the system
@@ -28,9 +29,11 @@ export interface Relation<T extends CollectionKey = CollectionKey> {
   collection: T;
   id: string;
   field?: string;           // Which field contains the reference
+  inverse?: string;         // Declared name of the reverse relation (e.g. 'posts')
   depth?: number;           // For indirect relations
   path?: string[];          // Path of collections for indirect relations
   entry?: CollectionEntry<T>; // Resolved entry (lazy loaded)
+  url?: string;             // Page URL (set by getBreadcrumbs)
 }
 
 /**
@@ -42,6 +45,7 @@ export interface RelationMap<T extends CollectionKey = CollectionKey> {
   // Direct relations
   references: Relation[];           // What this entry references
   referencedBy: Relation[];         // What references this entry
+  inverse: Record<string, Relation[]>; // Named inverse relations (e.g. an author's posts)
   
   // Hierarchical relations
   parent?: Relation;                // Direct parent
@@ -60,6 +64,96 @@ export interface RelationMap<T extends CollectionKey = CollectionKey> {
   isLeaf: boolean;
 }
 
+/**
+ * Data object of a collection's entries
+ */
+export type EntryData<T extends CollectionKey = CollectionKey> = CollectionEntry<T>['data'];
+
+/**
+ * Values that field paths don't descend into
+ */
+type FieldLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | Function;
+
+/**
+ * Remaining nesting levels for FieldPath (keeps the union finite)
+ */
+type PrevDepth = [never, 0, 1, 2, 3];
+
+/**
+ * Valid field paths of a data type
+ *
+ * Dotted paths for nested objects and `[n]` indexes for arrays, up to four
+ * levels deep. Distributes over unions, so a path is valid if any of the
+ * queried collections has it. Untyped (`any`) data accepts any string.
+ *
+ * @example
+ * FieldPath<EntryData<'blog'>> // 'title' | 'author' | 'author.id' | 'tags' | `tags[${number}]` | ...
+ */
+export type FieldPath<D, Depth extends number = 3> =
+  0 extends (1 & D) ? string :
+  D extends FieldLeaf ? never :
+  D extends readonly unknown[] ? never :
+  D extends object ? {
+    [K in keyof D & string]-?: K | SubFieldPath<K, NonNullable<D[K]>, Depth>;
+  }[keyof D & string] : never;
+
+/**
+ * Helper: Paths below one property
+ */
+type SubFieldPath<K extends string, V, Depth extends number> =
+  [Depth] extends [never] ? never :
+  0 extends (1 & V) ? `${K}.${string}` :
+  V extends FieldLeaf ? never :
+  V extends readonly (infer E)[] ?
+    | `${K}[${number}]`
+    | `${K}.${number}`
+    | (NonNullable<E> extends FieldLeaf | readonly unknown[]
+        ? never
+        : `${K}[${number}].${FieldPath<NonNullable<E>, PrevDepth[Depth]>}`) :
+  V extends object ? `${K}.${FieldPath<V, PrevDepth[Depth]>}` :
+  never;
+
+/**
+ * Type of the value at a field path (see FieldPath)
+ *
+ * @example
+ * FieldValue<EntryData<'blog'>, 'tags[0]'> // string
+ */
+export type FieldValue<D, P extends string> =
+  0 extends (1 & D) ? any :
+  D extends unknown
+    ? P extends `${infer Head}.${infer Rest}`
+      ? FieldValue<NonNullable<SegmentValue<D, Head>>, Rest>
+      : SegmentValue<D, P>
+    : never;
+
+/**
+ * Helper: Value of one path segment ('name', 'name[0]', '0')
+ */
+type SegmentValue<D, S extends string> =
+  0 extends (1 & D) ? any :
+  S extends `${infer Name}[${string}]${infer Indexes}`
+    ? IndexedValue<NonNullable<SegmentValue<D, Name>>, `[]${Indexes}`>
+    : D extends readonly (infer E)[]
+      ? (S extends `${number}` ? E : never)
+      : S extends keyof D ? D[S] : never;
+
+/**
+ * Helper: Apply `[n]` indexes to an array type
+ */
+type IndexedValue<V, Indexes extends string> =
+  Indexes extends `[${string}]${infer Rest}`
+    ? V extends readonly (infer E)[]
+      ? (Rest extends '' ? E : IndexedValue<NonNullable<E>, Rest>)
+      : never
+    : V;
+
+/**
+ * Element type of an array field (the field itself if it isn't an array)
+ */
+export type FieldElement<D, P extends string> =
+  NonNullable<FieldValue<D, P>> extends readonly (infer E)[] ? E : FieldValue<D, P>;
+
 /**
  * Query filter function
  */
@@ -81,7 +175,7 @@ export type SortFn<T extends CollectionKey = CollectionKey> = (
 export interface QueryOptions<T extends CollectionKey = CollectionKey> {
   collection?: T | T[];
   filter?: FilterFn<T> | FilterFn<T>[];
-  sort?: SortFn<T> | SortFn<T>[] | SortConfig[];
+  sort?: SortFn<T> | SortFn<T>[] | SortConfig<T>[];
   limit?: number;
   offset?: number;
   includeRelations?: boolean;
@@ -91,23 +185,268 @@ export interface QueryOptions<T extends CollectionKey = CollectionKey> {
 /**
  * Sort configuration
  */
-export interface SortConfig {
-  field: string;
+export interface SortConfig<T extends CollectionKey = CollectionKey> {
+  field: FieldPath<EntryData<T>>;
   direction: 'asc' | 'desc';
   nullsFirst?: boolean;
 }
 
+/**
+ * Field and direction a sort function orders by
+ */
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Relation fields resolved by .include()
+ * Single-valued fields (parent, non-array references) hold one entry.
+ */
+export interface IncludedMap {
+  [field: string]: IncludedEntry | IncludedEntry[] | undefined;
+}
+
+/**
+ * Entry with eagerly populated relations
+ */
+export type IncludedEntry<T extends CollectionKey = CollectionKey> = CollectionEntry<T> & {
+  included?: IncludedMap;
+};
+
+/**
+ * Relations declared in config.ts
+ */
+type DeclaredRelations = typeof relations;
+
+/**
+ * Inverse relation names declared for targets in collection T
+ *
+ * @example
+ * InverseField<'authors'> // 'posts'
+ */
+export type InverseField<T extends CollectionKey = CollectionKey> = {
+  [C in keyof DeclaredRelations]: {
+    [F in keyof DeclaredRelations[C]]: DeclaredRelations[C][F] extends { to: infer To; inverse: infer Name extends string }
+      ? (T extends (To extends readonly (infer Target)[] ? Target : To) ? Name : never)
+      : never;
+  }[keyof DeclaredRelations[C]];
+}[keyof DeclaredRelations];
+
+/**
+ * Fields accepted by .include(): reference fields, declared inverse
+ * relations or hierarchy relations
+ */
+export type IncludeField<T extends CollectionKey = CollectionKey> =
+  | FieldPath<EntryData<T>>
+  | InverseField<T>
+  | 'parent'
+  | 'children'
+  | 'siblings'
+  | 'ancestors'
+  | 'descendants';
+
+/**
+ * Options for .include()
+ */
+export interface IncludeOptions {
+  depth?: number;                 // Levels to populate (default 1 = direct relations only)
+}
+
 /**
  * Query result with metadata
  */
 export interface QueryResult<T extends CollectionKey = CollectionKey> {
-  entries: CollectionEntry<T>[];
+  entries: IncludedEntry<T>[];
   total: number;
   page?: number;
   pageSize?: number;
+  totalPages?: number;
   hasNext?: boolean;
   hasPrev?: boolean;
+  nextCursor?: string;            // Pass to .after() for the next page
+  prevCursor?: string;            // Pass to .before() for the previous page
   relations?: Map<string, RelationMap>;
+  groups?: QueryGroup<T>[];                 // Set by .groupBy()
+  facets?: Record<string, FacetValue[]>;    // Set by .facets()
+  aggregates?: Record<string, unknown>;     // Set by .aggregate()
+}
+
+/**
+ * One filter's effect in Query.explain()
+ */
+export interface ExplainStep {
+  label: string;                  // Readable descriptor, e.g. 'whereEquals(author.id = jane-doe)'
+  before: number;                 // Entries going in
+  after: number;                  // Entries left
+  ms: number;
+}
+
+/**
+ * Query plan with counts and timings (see Query.explain())
+ */
+export interface QueryExplain {
+  collections: CollectionKey[];
+  cacheKey?: string;              // Undefined when a filter or sort is a hand-written closure
+  loaded: number;                 // Entries before filtering
+  filters: ExplainStep[];         // In the order they were added
+  sorts: string[];                // Sort descriptors, highest priority first
+  window: {
+    start: number;
+    end: number;
+    offset: number;
+    limit?: number;
+    cursor?: 'after' | 'before';
+  };
+  total: number;                  // Entries matching all filters
+  returned: number;               // Entries in the window
+  include: string[];              // Relation fields populated on the window
+  timings: {
+    load: number;
+    filter: number;
+    sort: number;
+    paginate: number;
+    include: number;
+    total: number;
+  };
+}
+
+/**
+ * Aggregate function (see count, min, max, sum, distinct)
+ */
+export type AggregateFn<T extends CollectionKey = CollectionKey> = (
+  entries: CollectionEntry<T>[]
+) => unknown;
+
+/**
+ * Entries sharing a field value
+ */
+export interface QueryGroup<T extends CollectionKey = CollectionKey> {
+  key: string;                    // Normalized value (reference id, ISO date, string)
+  value: unknown;                 // Original value (e.g. the reference object)
+  count: number;
+  entries: CollectionEntry<T>[];
+  aggregates: Record<string, unknown>;
+}
+
+/**
+ * Number of entries with a given field value
+ */
+export interface FacetValue {
+  key: string;
+  value: unknown;
+  count: number;
+}
+
+/**
+ * A single page of query results (see Query.pages())
+ */
+export interface QueryPage<T extends CollectionKey = CollectionKey> {
+  entries: IncludedEntry<T>[];
+  page: number;                   // 1-based page number
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+/**
+ * Score weights for getRecommendations()
+ */
+export interface RecommendationWeights {
+  sharedReference: number;  // Per target both entries point to (same author, same parent)
+  directReference: number;  // One entry references or contains the other
+  sharedValue: number;      // Per shared tag / technology / category value
+  indirect: number;         // Multi-hop relation, divided by its depth
+  recency: number;          // Bonus for a brand-new entry, halved every recencyHalfLife days
+}
+
+/**
+ * Options for getRecommendations()
+ */
+export interface RecommendationOptions {
+  limit?: number;                   // Max results (default 5)
+  collections?: CollectionKey[];    // Candidate collections (default: the entry's own)
+  fields?: string[];                // Compared field paths (default: tags, technologies, category)
+  weights?: Partial<RecommendationWeights>;
+  dateField?: string;               // Date used for recency (default 'publishDate')
+  recencyHalfLife?: number;         // Days (default 180)
+  now?: Date;                       // Reference time for recency (default: start of today, UTC)
+}
+
+/**
+ * Why a candidate scored what it did
+ */
+export interface RecommendationReason {
+  type: 'shared-reference' | 'direct-reference' | 'shared-value' | 'indirect' | 'recency';
+  detail: string;                   // e.g. 'author → authors:jane-doe', 'tags: astro'
+  score: number;
+}
+
+/**
+ * A ranked related entry
+ */
+export interface Recommendation<T extends CollectionKey = CollectionKey> {
+  entry: CollectionEntry<T>;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+/**
+ * Options for getAdjacent()
+ */
+export interface AdjacentOptions<T extends CollectionKey = CollectionKey> {
+  sort?: SortFn<T> | SortFn<T>[] | SortConfig<T>[];  // Default: order, then publishDate (oldest first), then title
+  scope?: 'collection' | 'siblings';                 // siblings: entries with the same parent (default: collection)
+  loop?: boolean;                                    // Wrap around at the ends (default: false)
+  pagesOnly?: boolean;                               // Skip entries without a page (default: true)
+}
+
+/**
+ * Neighbouring entry with its page URL
+ */
+export interface AdjacentEntry {
+  entry: CollectionEntry<CollectionKey>;
+  title: string;
+  url?: string;                     // Always set when pagesOnly is on
+}
+
+/**
+ * Previous and next entries (see getAdjacent)
+ */
+export interface AdjacentEntries {
+  prev?: AdjacentEntry;
+  next?: AdjacentEntry;
+}
+
+/**
+ * Options for findPath() and whereConnectedTo()
+ */
+export interface PathOptions {
+  via?: CollectionKey[];            // Collections intermediate entries may belong to (default: any)
+  maxDepth?: number;                // Max hops (default 4)
+}
+
+/**
+ * One hop of a path between two entries
+ */
+export interface PathStep {
+  from: EntryReference;
+  to: EntryReference;
+  field: string;                    // Field holding the link ('parent' for hierarchy hops)
+  direction: 'forward' | 'reverse'; // forward: `from` holds the field; reverse: `to` does
+}
+
+/**
+ * Shortest chain of entries between two entries (see findPath)
+ */
+export interface GraphPath {
+  entries: CollectionEntry<CollectionKey>[];  // From the start entry to the end entry
+  steps: PathStep[];                          // entries.length - 1 hops
+  length: number;
 }
 
 /**
@@ -120,13 +459,15 @@ export interface RelationshipGraph {
   // Quick lookup indexes
   indexes: {
     byCollection: Map<CollectionKey, Set<string>>;
-    byParent: Map<string, Set<string>>;
+    byParent: Map<string, Set<string>>;      // Parent entry key → child entry keys (any collection)
     byReference: Map<string, Set<string>>;
   };
   
   // Metadata
   collections: CollectionKey[];
   totalEntries: number;
+  unpublished: Set<string>;   // Entry keys left out as unpublished (see isPublished)
+  version: number;            // Bumped by every incremental update, for caches derived from the graph
 }
 
 /**
@@ -137,6 +478,90 @@ export interface GraphBuildOptions {
   includeIndirect?: boolean;
   maxIndirectDepth?: number;
   cache?: boolean;
+  validate?: boolean;       // Run the integrity report after building (default true)
+}
+
+/**
+ * Kinds of problems found by validateGraph()
+ */
+export type GraphIssueType =
+  | 'dangling-reference'    // Reference or parent points to a missing entry
+  | 'unpublished-reference' // Reference or parent points to an unpublished entry
+  | 'parent-cycle'          // Parent chain loops back on itself
+  | 'orphan'                // Entry of a referenced collection that nothing references
+  | 'unreachable'           // Page not linked from a menu, index page, parent or reference
+  | 'invalid-target'        // Declared relation points to an undeclared collection
+  | 'cardinality';          // Declared relation holds more entries than its cardinality allows
+
+/**
+ * A single graph integrity problem
+ */
+export interface GraphIssue {
+  type: GraphIssueType;
+  severity: 'error' | 'warning';
+  collection: CollectionKey;
+  id: string;
+  file: string;             // Source file (or entry key when unknown)
+  field?: string;           // Field holding the bad reference
+  message: string;
+}
+
+/**
+ * Result of validateGraph()
+ */
+export interface GraphValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  issues: GraphIssue[];
+}
+
+/**
+ * Relation types emitted as edges by the graph serializers
+ * Inverse and derived relations (referenced-by, child, sibling, ancestor,
+ * descendant) are implied by these and left out.
+ */
+export type GraphEdgeType = 'reference' | 'parent' | 'indirect';
+
+/**
+ * Options for toGraphJSON(), toDot() and toMermaid()
+ */
+export interface GraphExportOptions {
+  collections?: CollectionKey[];    // Only entries of these collections (default: all)
+  relationTypes?: GraphEdgeType[];  // Edge types to emit (default: reference, parent)
+  includeIsolated?: boolean;        // Keep entries without edges (default: true)
+}
+
+/**
+ * Entry in a serialized graph
+ */
+export interface GraphExportNode {
+  key: string;                      // Entry key (collection:id)
+  collection: CollectionKey;
+  id: string;
+  title: string;
+  url?: string;                     // Page URL, if the entry has a page
+  depth: number;                    // Depth in hierarchy (0 = root)
+}
+
+/**
+ * Typed edge in a serialized graph
+ */
+export interface GraphExportEdge {
+  from: string;                     // Entry key of the source
+  to: string;                       // Entry key of the target
+  type: GraphEdgeType;
+  field?: string;                   // Field holding the reference ('parent' for parent edges)
+  depth?: number;                   // Hops, for indirect edges
+}
+
+/**
+ * Serialized relationship graph (see toGraphJSON)
+ */
+export interface GraphExport {
+  collections: CollectionKey[];
+  nodes: GraphExportNode[];
+  edges: GraphExportEdge[];
 }
 
 /**
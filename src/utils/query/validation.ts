@@ -0,0 +1,366 @@
+// src/utils/query/validation.ts
+/**
+ * Relationship Graph Validation
+ *
+ * Integrity report for the content graph. Checks for:
+ * - Dangling references (reference or parent field pointing to a missing entry)
+ * - References to unpublished entries, which the graph leaves out (warnings)
+ * - Parent cycles
+ * - Orphaned entries (nothing references an entry of a referenced collection)
+ * - Unreachable pages (no menu, index page, parent or reference leads to them)
+ * - Relations declared in config.ts that point to other collections or hold
+ *   more entries than their cardinality allows
+ *
+ * Dangling references, cycles and declared relation violations are errors and
+ * fail the build, the same way buildRedirectConfig() does for redirects.
+ * Orphans and unreachable pages are warnings.
+ */
+
+import { getCollection } from 'astro:content';
+import type { CollectionKey } from 'astro:content';
+import { getCollectionMeta, getEntryUrl } from '@/utils/collections';
+import {
+  type RelationshipGraph,
+  type RelationMap,
+  type GraphIssue,
+  type GraphValidationResult,
+  getEntryKey,
+} from './types';
+import { getParentReference, getRelationDeclarations, getDeclaredTargets } from './schema';
+import { normalizeId } from './helpers';
+
+/**
+ * Validate a relationship graph
+ *
+ * @param graph - Graph to check (from getOrBuildGraph or buildRelationshipGraph)
+ * @returns Validation result with errors, warnings and structured issues
+ * @example
+ * const result = await validateGraph(await getOrBuildGraph());
+ * result.issues.filter(i => i.type === 'dangling-reference');
+ */
+export async function validateGraph(
+  graph: RelationshipGraph
+): Promise<GraphValidationResult> {
+  const issues: GraphIssue[] = [
+    ...findDanglingReferences(graph),
+    ...findParentCycles(graph),
+    ...findDeclaredRelationViolations(graph),
+    ...findOrphans(graph),
+    ...(await findUnreachablePages(graph)),
+  ];
+  
+  const errors = issues.filter(i => i.severity === 'error').map(i => i.message);
+  const warnings = issues.filter(i => i.severity === 'warning').map(i => i.message);
+  
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+    issues,
+  };
+}
+
+/**
+ * Log a validation result and throw on errors
+ *
+ * @param result - Result from validateGraph()
+ * @param options.includeWarnings - Whether to log warnings (default: true)
+ * @param options.throwOnError - Whether errors throw (default: true)
+ * @throws Error if the graph has errors and throwOnError is set
+ */
+export function reportGraphValidation(
+  result: GraphValidationResult,
+  options: { includeWarnings?: boolean; throwOnError?: boolean } = {}
+): void {
+  const { includeWarnings = true, throwOnError = true } = options;
+  
+  if (result.errors.length > 0) {
+    console.error('\n❌ Content graph errors:');
+    result.errors.forEach(error => console.error(`  ${error}`));
+    console.error('');
+    if (throwOnError) {
+      throw new Error('Content graph has integrity errors. Please fix them before building.');
+    }
+  }
+  
+  if (includeWarnings && result.warnings.length > 0) {
+    console.warn('\n⚠️  Content graph warnings:');
+    result.warnings.forEach(warning => console.warn(`  ${warning}`));
+    console.warn('');
+  }
+}
+
+/**
+ * Helper: Source file of a node, for error reporting
+ */
+function getSourceFile(relationMap: RelationMap): string {
+  const { entry } = relationMap;
+  return (entry as { filePath?: string }).filePath
+    ?? getEntryKey(entry.collection, normalizeId(entry.id));
+}
+
+/**
+ * Helper: Iterate all nodes with their collection and id
+ */
+function* eachNode(
+  graph: RelationshipGraph
+): Generator<[CollectionKey, string, RelationMap]> {
+  for (const [collection, collectionMap] of graph.nodes) {
+    for (const [id, relationMap] of collectionMap) {
+      yield [collection as CollectionKey, id, relationMap];
+    }
+  }
+}
+
+/**
+ * Find references and parents pointing to entries that don't exist
+ * References to collections outside the graph (menus, menu-items) are skipped.
+ */
+function findDanglingReferences(graph: RelationshipGraph): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  
+  for (const [collection, id, relationMap] of eachNode(graph)) {
+    const file = getSourceFile(relationMap);
+    
+    for (const ref of relationMap.references) {
+      const targetCollection = graph.nodes.get(ref.collection);
+      if (!targetCollection || targetCollection.has(ref.id)) continue;
+      
+      if (graph.unpublished.has(getEntryKey(ref.collection, ref.id))) {
+        issues.push(unpublishedReference(collection, id, file, ref.field, `${ref.collection}/${ref.id}`));
+        continue;
+      }
+      
+      issues.push({
+        type: 'dangling-reference',
+        severity: 'error',
+        collection,
+        id,
+        file,
+        field: ref.field,
+        message: `Dangling reference in ${file}: ${ref.field} → "${ref.collection}/${ref.id}" does not exist`,
+      });
+    }
+    
+    const parentRef = getParentReference(relationMap.entry.data as any, collection);
+    if (parentRef && !graph.nodes.get(parentRef.collection)?.has(normalizeId(parentRef.id))) {
+      const parentId = normalizeId(parentRef.id);
+      if (graph.unpublished.has(getEntryKey(parentRef.collection, parentId))) {
+        issues.push(unpublishedReference(collection, id, file, 'parent', `${parentRef.collection}/${parentId}`));
+        continue;
+      }
+      
+      issues.push({
+        type: 'dangling-reference',
+        severity: 'error',
+        collection,
+        id,
+        file,
+        field: 'parent',
+        message: `Dangling reference in ${file}: parent → "${parentRef.collection}/${normalizeId(parentRef.id)}" does not exist`,
+      });
+    }
+  }
+  
+  return issues;
+}
+
+/**
+ * Helper: Warning for a reference to an entry left out of the graph as unpublished
+ * (fine while it is scheduled, but the link is missing until it goes live)
+ */
+function unpublishedReference(
+  collection: CollectionKey,
+  id: string,
+  file: string,
+  field: string | undefined,
+  target: string
+): GraphIssue {
+  return {
+    type: 'unpublished-reference',
+    severity: 'warning',
+    collection,
+    id,
+    file,
+    field,
+    message: `Unpublished reference in ${file}: ${field ?? 'reference'} → "${target}" is a draft, scheduled or expired`,
+  };
+}
+
+/**
+ * Find parent chains that loop back on themselves
+ * Each cycle is reported once, on the entry where the walk first closed it.
+ */
+function findParentCycles(graph: RelationshipGraph): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  const checked = new Set<string>();
+  
+  for (const [collection, id] of eachNode(graph)) {
+    const path: string[] = [];
+    let current: { collection: CollectionKey; id: string } | undefined = { collection, id };
+    
+    while (current) {
+      const key = getEntryKey(current.collection, current.id);
+      const start = path.indexOf(key);
+      
+      if (start !== -1) {
+        const cycle = [...path.slice(start), key];
+        const relationMap = graph.nodes.get(current.collection)!.get(current.id)!;
+        const file = getSourceFile(relationMap);
+        issues.push({
+          type: 'parent-cycle',
+          severity: 'error',
+          collection: current.collection,
+          id: current.id,
+          file,
+          field: 'parent',
+          message: `Parent cycle in ${file}: ${cycle.join(' → ')}`,
+        });
+        break;
+      }
+      if (checked.has(key)) break;
+      
+      const relationMap = graph.nodes.get(current.collection)?.get(current.id);
+      if (!relationMap) break;
+      
+      path.push(key);
+      const parentRef = getParentReference(relationMap.entry.data as any, current.collection);
+      current = parentRef && { collection: parentRef.collection, id: normalizeId(parentRef.id) };
+    }
+    
+    path.forEach(key => checked.add(key));
+  }
+  
+  return issues;
+}
+
+/**
+ * Find declared relations with wrong targets or too many entries
+ *
+ * many-to-one and one-to-one fields hold at most one entry; one-to-one and
+ * one-to-many targets are referenced by at most one entry through the field.
+ */
+function findDeclaredRelationViolations(graph: RelationshipGraph): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  
+  for (const [collection, id, relationMap] of eachNode(graph)) {
+    const declarations = getRelationDeclarations(collection);
+    if (!declarations) continue;
+    
+    const file = getSourceFile(relationMap);
+    
+    for (const [field, declaration] of Object.entries(declarations)) {
+      const refs = relationMap.references.filter(ref => ref.field === field);
+      const targets = getDeclaredTargets(declaration);
+      const { cardinality } = declaration;
+      
+      for (const ref of refs.filter(ref => !targets.includes(ref.collection))) {
+        issues.push({
+          type: 'invalid-target',
+          severity: 'error',
+          collection,
+          id,
+          file,
+          field,
+          message: `Invalid relation in ${file}: ${field} → "${ref.collection}/${ref.id}" is not in ${targets.join(', ')}`,
+        });
+      }
+      
+      if ((cardinality === 'many-to-one' || cardinality === 'one-to-one') && refs.length > 1) {
+        issues.push({
+          type: 'cardinality',
+          severity: 'error',
+          collection,
+          id,
+          file,
+          field,
+          message: `Cardinality violation in ${file}: ${field} is ${cardinality} but holds ${refs.length} entries`,
+        });
+      }
+      
+      if (cardinality !== 'one-to-many' && cardinality !== 'one-to-one') continue;
+      
+      // Report each shared target once, on its first source
+      for (const ref of refs) {
+        const sources = graph.nodes.get(ref.collection)?.get(ref.id)?.referencedBy
+          .filter(rel => rel.field === field && rel.collection === collection) ?? [];
+        if (sources.length <= 1 || sources[0].id !== id) continue;
+        
+        issues.push({
+          type: 'cardinality',
+          severity: 'error',
+          collection,
+          id,
+          file,
+          field,
+          message: `Cardinality violation in ${file}: ${field} is ${cardinality} but "${ref.collection}/${ref.id}" is used by ${sources.map(rel => `${rel.collection}/${rel.id}`).join(', ')}`,
+        });
+      }
+    }
+  }
+  
+  return issues;
+}
+
+/**
+ * Find entries of referenced collections (e.g. authors) that nothing links to
+ */
+function findOrphans(graph: RelationshipGraph): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  
+  const referencedCollections = new Set<string>();
+  for (const [, , relationMap] of eachNode(graph)) {
+    relationMap.references.forEach(ref => referencedCollections.add(ref.collection));
+  }
+  
+  for (const [collection, id, relationMap] of eachNode(graph)) {
+    if (!referencedCollections.has(collection)) continue;
+    if (relationMap.referencedBy.length > 0 || relationMap.parent || relationMap.hasChildren) continue;
+    
+    const file = getSourceFile(relationMap);
+    issues.push({
+      type: 'orphan',
+      severity: 'warning',
+      collection,
+      id,
+      file,
+      message: `Orphaned entry ${file}: no entry references "${collection}/${id}"`,
+    });
+  }
+  
+  return issues;
+}
+
+/**
+ * Find item pages nothing leads to
+ * A page is reachable from a menu item, its collection's index page, a parent,
+ * a child or an incoming reference.
+ */
+async function findUnreachablePages(graph: RelationshipGraph): Promise<GraphIssue[]> {
+  const issues: GraphIssue[] = [];
+  
+  const menuItems = await getCollection('menu-items');
+  const menuUrls = new Set(
+    menuItems.map(item => (item.data as { url?: string }).url).filter(Boolean)
+  );
+  
+  for (const [collection, id, relationMap] of eachNode(graph)) {
+    const meta = getCollectionMeta(collection);
+    const url = getEntryUrl(relationMap.entry, meta, graph);
+    
+    if (!url || meta.hasPage || menuUrls.has(url)) continue;
+    if (relationMap.referencedBy.length > 0 || relationMap.parent || relationMap.hasChildren) continue;
+    
+    const file = getSourceFile(relationMap);
+    issues.push({
+      type: 'unreachable',
+      severity: 'warning',
+      collection,
+      id,
+      file,
+      message: `Unreachable page ${url} (${file}): not in a menu, collection index, hierarchy or any reference`,
+    });
+  }
+  
+  return issues;
+}
@@ -11,6 +11,7 @@ import path from 'node:path';
 import { parseFrontmatter } from '../filesystem/frontmatter';
 import { normalizePath } from '../pathValidation';
 import { getCollectionDirs } from '../filesystem/shared';
+import { createFileLookup, getItemUrl } from '../filesystem/itemPaths';
 import type { RedirectEntry } from './types';
 
 /**
@@ -51,13 +52,19 @@ export function collectCollectionRedirects(
     return redirects;
   }
   
-  const redirectFromPaths = normalizeRedirectFrom(meta.redirectFrom);
+  const targetPath = `/${collectionName}`;
   
-  if (redirectFromPaths.length === 0) {
-    return redirects;
+  // Page 1 of a paginated index lives at the collection URL
+  if (meta.itemsPerPage) {
+    redirects.push({
+      from: `${targetPath}/page/1`,
+      to: targetPath,
+      source: `${collectionName}/_meta.mdx (itemsPerPage)`,
+      type: 'collection',
+    });
   }
   
-  const targetPath = `/${collectionName}`;
+  const redirectFromPaths = normalizeRedirectFrom(meta.redirectFrom);
   
   for (const fromPath of redirectFromPaths) {
     redirects.push({
@@ -89,10 +96,8 @@ export function collectItemRedirects(
     return redirects;
   }
   
-  // Read collection meta for itemsHasPage default
-  const metaPath = path.join(collectionDir, '_meta.mdx');
-  const meta = fs.existsSync(metaPath) ? parseFrontmatter(metaPath) : {};
-  const itemsHasPageDefault = meta.itemsHasPage !== false;
+  // Resolves item URLs (hasPage, rootPath, nested under parents)
+  const lookup = createFileLookup(contentDir);
   
   // Get all content files
   const files = fs.readdirSync(collectionDir);
@@ -104,13 +109,6 @@ export function collectItemRedirects(
   for (const file of contentFiles) {
     const filePath = path.join(collectionDir, file);
     const data = parseFrontmatter(filePath);
-    
-    // Check if item should have a page
-    const hasPage = data.hasPage !== undefined ? data.hasPage : itemsHasPageDefault;
-    if (!hasPage) {
-      continue;
-    }
-    
     const redirectFromPaths = normalizeRedirectFrom(data.redirectFrom);
     
     if (redirectFromPaths.length === 0) {
@@ -120,12 +118,11 @@ export function collectItemRedirects(
     // Extract slug from filename
     const slug = file.replace(/\.(mdx|md)$/, '');
     
-    // Determine target path based on rootPath setting
-    const useRootPath = data.rootPath !== undefined 
-      ? data.rootPath 
-      : (meta.itemsRootPath !== undefined ? meta.itemsRootPath : false);
-    
-    const targetPath = useRootPath ? `/${slug}` : `/${collectionName}/${slug}`;
+    // Target is the item's page (items without one, e.g. unpublished, are skipped)
+    const targetPath = getItemUrl(collectionName, slug, lookup);
+    if (!targetPath) {
+      continue;
+    }
     
     for (const fromPath of redirectFromPaths) {
       redirects.push({
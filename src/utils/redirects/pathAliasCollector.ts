@@ -2,36 +2,53 @@
 /**
  * Path Alias Redirect Collector
  * 
- * Automatically generates redirects between root-level and collection-level paths.
+ * Automatically generates redirects between the paths an item could live at
+ * (root level, collection level, nested under its parent) and the one it uses,
+ * plus redirects from URLs the item had in earlier builds.
  * Ensures users never hit 404s when accessing items via alternate paths.
  * 
  * Examples:
  * - Item at /about (rootPath: true) → Redirect /pages/about to /about
  * - Item at /blog/post (rootPath: false) → Redirect /post to /blog/post
+ * - Item at /services/web-development/ecommerce (nestedPath: true)
+ *   → Redirect /services/ecommerce and /ecommerce to it
+ * - Item moved to a new parent → Redirect its previous nested URL to the new one
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
-import { parseFrontmatter } from '../filesystem/frontmatter';
 import { normalizePath } from '../pathValidation';
 import { getCollectionDirs } from '../filesystem/shared';
-import { shouldItemHavePage, shouldItemUseRootPath } from '../filesystem/pageLogic';
+import { type ItemLookup, createFileLookup, getItemUrl } from '../filesystem/itemPaths';
+import { showUnpublished } from '../publishing';
+import {
+  type PathHistory,
+  isPathHistoryStale,
+  readPathHistory,
+  recordPath,
+  savePathHistory,
+  shouldRecordPaths,
+} from './pathHistory';
 import type { RedirectEntry } from './types';
 
 /**
  * Collect path alias redirects for a single collection
  * 
- * For each item that has a page:
- * - If rootPath: true → Redirect /collection/slug to /slug
- * - If rootPath: false → Redirect /slug to /collection/slug
+ * For each item that has a page, redirects to its URL from:
+ * - /slug and /collection/slug (whichever it doesn't use)
+ * - URLs recorded in the path history (when a history is given)
  * 
  * @param collectionName - Collection to process
  * @param contentDir - Path to content directory
+ * @param lookup - Item lookup (shared across collections for parent chains)
+ * @param history - Path history to record current URLs in
  * @returns Array of redirect entries
  */
 export function collectPathAliasRedirects(
   collectionName: string,
-  contentDir: string
+  contentDir: string,
+  lookup: ItemLookup = createFileLookup(contentDir),
+  history?: PathHistory
 ): RedirectEntry[] {
   const redirects: RedirectEntry[] = [];
   const collectionDir = path.join(contentDir, collectionName);
@@ -40,10 +57,6 @@ export function collectPathAliasRedirects(
     return redirects;
   }
   
-  // Read collection meta for defaults
-  const metaPath = path.join(collectionDir, '_meta.mdx');
-  const meta = fs.existsSync(metaPath) ? parseFrontmatter(metaPath) : {};
-  
   // Get all content files
   const files = fs.readdirSync(collectionDir);
   const contentFiles = files.filter(file => 
@@ -52,42 +65,45 @@ export function collectPathAliasRedirects(
   );
   
   for (const file of contentFiles) {
-    const filePath = path.join(collectionDir, file);
-    const itemData = parseFrontmatter(filePath);
+    // Extract slug from filename
+    const slug = file.replace(/\.(mdx|md)$/, '');
     
-    // Skip items without pages - using Node.js-compatible function from filesystem/pageLogic
-    if (!shouldItemHavePage(itemData, meta)) {
+    // Skip items without pages (also decided by filesystem/pageLogic)
+    const itemUrl = getItemUrl(collectionName, slug, lookup);
+    if (!itemUrl) {
       continue;
     }
     
-    // Extract slug from filename
-    const slug = file.replace(/\.(mdx|md)$/, '');
-    
-    // Determine paths
-    const rootPath = `/${slug}`;
-    const collectionPath = `/${collectionName}/${slug}`;
+    const to = normalizePath(itemUrl);
+    const source = `${collectionName}/${slug}`;
     
-    // Use Node.js-compatible function from filesystem/pageLogic
-    const useRootPath = shouldItemUseRootPath(itemData, meta);
+    // Alternate paths: root level and collection level
+    const aliases = [`/${slug}`, `/${collectionName}/${slug}`].map(normalizePath);
     
-    // Create redirect based on rootPath setting
-    if (useRootPath) {
-      // Item is at root level, redirect collection path to root
-      redirects.push({
-        from: normalizePath(collectionPath),
-        to: normalizePath(rootPath),
-        source: `${collectionName}/${slug} (path-alias)`,
-        type: 'path-alias',
-      });
-    } else {
-      // Item is at collection level, redirect root path to collection
+    for (const from of new Set(aliases)) {
+      if (from === to) continue;
+      
       redirects.push({
-        from: normalizePath(rootPath),
-        to: normalizePath(collectionPath),
-        source: `${collectionName}/${slug} (path-alias)`,
+        from,
+        to,
+        source: `${source} (path-alias)`,
         type: 'path-alias',
       });
     }
+    
+    // Earlier URLs, e.g. before the item moved to a new parent
+    if (history) {
+      for (const previousUrl of recordPath(history, source, to)) {
+        if (aliases.includes(previousUrl)) continue;
+        
+        redirects.push({
+          from: previousUrl,
+          to,
+          source: `${source} (moved)`,
+          type: 'path-alias',
+        });
+      }
+    }
   }
   
   return redirects;
@@ -96,6 +112,10 @@ export function collectPathAliasRedirects(
 /**
  * Collect all path alias redirects from all collections
  * 
+ * Also records current URLs in the path history (written only with
+ * RECORD_PATHS=true), and drops redirects from paths another item's page
+ * now uses.
+ * 
  * @param contentDir - Path to content directory
  * @returns Array of all path alias redirect entries
  */
@@ -104,15 +124,31 @@ export function collectAllPathAliasRedirects(
 ): RedirectEntry[] {
   const allRedirects: RedirectEntry[] = [];
   const collectionDirs = getCollectionDirs(contentDir);
+  const lookup = createFileLookup(contentDir);
+  const historyFile = path.join(contentDir, '_path-history.json');
+  const history = readPathHistory(historyFile);
   
   for (const collectionName of collectionDirs) {
     try {
-      const pathRedirects = collectPathAliasRedirects(collectionName, contentDir);
+      const pathRedirects = collectPathAliasRedirects(collectionName, contentDir, lookup, history);
       allRedirects.push(...pathRedirects);
     } catch (error) {
       console.error(`Error collecting path alias redirects from ${collectionName}:`, error);
     }
   }
   
-  return allRedirects;
+  // Builds only read the history; RECORD_PATHS=true writes it
+  if (savePathHistory(history, historyFile)) {
+    console.log(`📝 Updated ${path.relative(process.cwd(), historyFile)}`);
+  } else if (!shouldRecordPaths() && !showUnpublished() && isPathHistoryStale(history, historyFile)) {
+    console.warn(
+      `${path.relative(process.cwd(), historyFile)} is missing current item URLs. ` +
+      `Run RECORD_PATHS=true npm run build and commit it to keep redirects for moved items.`
+    );
+  }
+  
+  // A page always wins over a redirect from the same path
+  // (every item with a page is the target of its aliases)
+  const pageUrls = new Set(allRedirects.map(redirect => redirect.to));
+  return allRedirects.filter(redirect => !pageUrls.has(redirect.from));
 }
\ No newline at end of file
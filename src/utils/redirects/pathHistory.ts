@@ -0,0 +1,110 @@
+// src/utils/redirects/pathHistory.ts
+/**
+ * Item Path History
+ * 
+ * Remembers the URLs items had in earlier builds, so an item whose URL
+ * changes - e.g. moved to a new parent with nestedPath: true - leaves a
+ * redirect from its old URL behind.
+ * 
+ * Stored in src/content/_path-history.json. Builds only read it; recording
+ * is explicit, so CI and one-off builds never touch the tracked file:
+ * 
+ *   RECORD_PATHS=true npm run build
+ * 
+ * Commit the updated file along with the content changes that moved items.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { showUnpublished } from '../publishing';
+
+/**
+ * Item key ("collection/slug") → URLs, current URL last
+ */
+export type PathHistory = Record<string, string[]>;
+
+/**
+ * Default location of the path history file
+ */
+export const PATH_HISTORY_FILE = path.join(process.cwd(), 'src', 'content', '_path-history.json');
+
+/**
+ * Read the path history (empty if the file doesn't exist yet)
+ * 
+ * @param file - Path history file
+ * @returns Path history
+ */
+export function readPathHistory(file: string = PATH_HISTORY_FILE): PathHistory {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    console.warn(`Failed to read path history ${file}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Record an item's current URL
+ * 
+ * @param history - Path history (updated in place)
+ * @param key - Item key ("collection/slug")
+ * @param url - Current URL
+ * @returns Earlier URLs of the item (oldest first)
+ * @example
+ * recordPath(history, 'services/ecommerce', '/services/web-development/ecommerce');
+ * // ['/services/ecommerce'] if that was its URL in the last build
+ */
+export function recordPath(history: PathHistory, key: string, url: string): string[] {
+  const previous = (history[key] ?? []).filter(oldUrl => oldUrl !== url);
+  history[key] = [...previous, url];
+  return previous;
+}
+
+/**
+ * Check if this build should write the path history
+ * Only with RECORD_PATHS=true, and never in preview mode (drafts would be recorded).
+ */
+export function shouldRecordPaths(): boolean {
+  return process.env.RECORD_PATHS === 'true' && !showUnpublished();
+}
+
+/**
+ * Check if the path history is missing URLs of this build
+ * 
+ * @param history - Path history with the current URLs recorded
+ * @param file - Path history file
+ * @returns True if saving would change the file
+ */
+export function isPathHistoryStale(history: PathHistory, file: string = PATH_HISTORY_FILE): boolean {
+  return !fs.existsSync(file) || fs.readFileSync(file, 'utf-8') !== serializePathHistory(history);
+}
+
+/**
+ * Save the path history if it changed and recording is on (see shouldRecordPaths)
+ * 
+ * @param history - Path history
+ * @param file - Path history file
+ * @returns True if the file was written
+ */
+export function savePathHistory(history: PathHistory, file: string = PATH_HISTORY_FILE): boolean {
+  if (!shouldRecordPaths() || !isPathHistoryStale(history, file)) {
+    return false;
+  }
+  
+  fs.writeFileSync(file, serializePathHistory(history));
+  return true;
+}
+
+/**
+ * Helper: Stable file content (sorted keys, trailing newline)
+ */
+function serializePathHistory(history: PathHistory): string {
+  const sorted = Object.fromEntries(
+    Object.keys(history).sort().map(key => [key, history[key]])
+  );
+  return JSON.stringify(sorted, null, 2) + '\n';
+}
\ No newline at end of file
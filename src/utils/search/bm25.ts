@@ -0,0 +1,128 @@
+// src/utils/search/bm25.ts
+/**
+ * BM25 Scoring
+ *
+ * Okapi BM25 over weighted term frequencies. Works on in-memory documents
+ * (build time) and on the serialized inverted index (browser).
+ */
+
+import type { AnalyzedDocument, SearchHit, SearchIndex } from './types';
+import { tokenize } from './text';
+
+/**
+ * Term frequency saturation
+ */
+export const BM25_K1 = 1.2;
+
+/**
+ * Document length normalization
+ */
+export const BM25_B = 0.75;
+
+/**
+ * Score a single term in a single document
+ *
+ * @param frequency - Weighted term frequency in the document
+ * @param length - Weighted document length
+ * @param avgLength - Average document length in the corpus
+ * @param docCount - Number of documents in the corpus
+ * @param docFrequency - Number of documents containing the term
+ */
+export function bm25(
+  frequency: number,
+  length: number,
+  avgLength: number,
+  docCount: number,
+  docFrequency: number
+): number {
+  const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+  const norm = BM25_K1 * (1 - BM25_B + BM25_B * (length / (avgLength || 1)));
+  return idf * (frequency * (BM25_K1 + 1)) / (frequency + norm);
+}
+
+/**
+ * Score in-memory documents against query terms
+ *
+ * @param docs - Analyzed documents (the corpus)
+ * @param terms - Tokenized query
+ * @returns Scores aligned with docs (0 = no match)
+ */
+export function rankDocuments(docs: AnalyzedDocument[], terms: string[]): number[] {
+  const scores = new Array<number>(docs.length).fill(0);
+  if (docs.length === 0 || terms.length === 0) return scores;
+
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length;
+
+  for (const term of new Set(terms)) {
+    const docFrequency = docs.filter(doc => doc.terms.has(term)).length;
+    if (docFrequency === 0) continue;
+
+    docs.forEach((doc, i) => {
+      const frequency = doc.terms.get(term);
+      if (frequency) {
+        scores[i] += bm25(frequency, doc.length, avgLength, docs.length, docFrequency);
+      }
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Search a serialized index
+ *
+ * The last query word also matches as a prefix, so results update
+ * sensibly while the user is still typing.
+ *
+ * @param index - Index produced by buildSearchIndex()
+ * @param text - Raw query text
+ * @param options - Result limit and prefix matching
+ * @returns Hits sorted by descending score
+ * @example
+ * searchIndex(index, 'astro isl') // matches 'astro' and 'islands'
+ */
+export function searchIndex(
+  index: SearchIndex,
+  text: string,
+  options: { limit?: number; prefix?: boolean } = {}
+): SearchHit[] {
+  const { limit, prefix = true } = options;
+  const queryTerms = tokenize(text);
+  if (queryTerms.length === 0) return [];
+
+  const docCount = index.docs.length;
+  const scores = new Map<number, { score: number; terms: Set<string> }>();
+
+  queryTerms.forEach((queryTerm, i) => {
+    const isLast = i === queryTerms.length - 1;
+    const matches = prefix && isLast
+      ? Object.keys(index.terms).filter(term => term.startsWith(queryTerm))
+      : index.terms[queryTerm] ? [queryTerm] : [];
+
+    for (const term of matches) {
+      const postings = index.terms[term];
+      const docFrequency = postings.length / 2;
+
+      for (let p = 0; p < postings.length; p += 2) {
+        const docIndex = postings[p];
+        const doc = index.docs[docIndex];
+        const score = bm25(postings[p + 1], doc.length, index.avgLength, docCount, docFrequency);
+        // Prefix expansions count slightly less than exact matches
+        const weight = term === queryTerm ? 1 : 0.8;
+
+        const hit = scores.get(docIndex) ?? { score: 0, terms: new Set<string>() };
+        hit.score += score * weight;
+        hit.terms.add(term);
+        scores.set(docIndex, hit);
+      }
+    }
+  });
+
+  const hits = Array.from(scores, ([docIndex, { score, terms }]) => ({
+    doc: index.docs[docIndex],
+    score,
+    terms: Array.from(terms),
+  })).sort((a, b) => b.score - a.score);
+
+  return limit !== undefined ? hits.slice(0, limit) : hits;
+}
@@ -0,0 +1,95 @@
+// src/utils/search/builder.ts
+/**
+ * Search Index Builder
+ *
+ * Walks content collections at build time and produces a compact inverted
+ * index. Entries without their own page point at their collection's index
+ * page; entries with neither, and unpublished entries, are skipped.
+ */
+
+import { getCollection } from 'astro:content';
+import type { CollectionKey } from 'astro:content';
+import { getCollectionNames, getCollectionMeta, prepareEntry } from '@/utils/collections';
+import { shouldCollectionHavePage } from '@/utils/pages';
+import { capitalize } from '@/utils/string';
+import { isPublished } from '@/utils/publishing';
+import type { SearchDocument, SearchIndex, SearchIndexOptions } from './types';
+import { getEntrySearchFields } from './entries';
+import { analyzeFields } from './text';
+
+/**
+ * Build the search index
+ *
+ * @param options - Collections to include and excerpt length
+ * @returns Serializable inverted index
+ * @example
+ * // src/pages/search-index.json.ts
+ * export const GET: APIRoute = async () =>
+ *   new Response(JSON.stringify(await buildSearchIndex()));
+ */
+export async function buildSearchIndex(
+  options: SearchIndexOptions = {}
+): Promise<SearchIndex> {
+  const {
+    collections = getCollectionNames().filter(c => c !== 'menus' && c !== 'menu-items'),
+    excerptLength = 300,
+  } = options;
+
+  const docs: SearchDocument[] = [];
+  const titles: Record<string, string> = {};
+  const terms: Record<string, number[]> = {};
+  let totalLength = 0;
+
+  for (const collection of collections as CollectionKey[]) {
+    const meta = getCollectionMeta(collection);
+    const collectionUrl = shouldCollectionHavePage(meta) ? `/${collection}` : undefined;
+    titles[collection] = meta.title ?? capitalize(collection.replace(/-/g, ' '));
+    const entries = await getCollection(collection);
+
+    for (const entry of entries) {
+      if (!isPublished(entry.data)) continue;
+
+      const prepared = await prepareEntry(entry, collection, meta);
+      const url = prepared.url ?? collectionUrl;
+      if (!url) continue;
+
+      const fields = getEntrySearchFields(entry);
+      const analyzed = analyzeFields(fields);
+      if (analyzed.length === 0) continue;
+
+      const docIndex = docs.length;
+      docs.push({
+        id: prepared.slug,
+        collection,
+        title: fields.title || prepared.slug,
+        url,
+        description: fields.description || undefined,
+        excerpt: truncate(fields.body, excerptLength),
+        length: analyzed.length,
+      });
+      totalLength += analyzed.length;
+
+      for (const [term, frequency] of analyzed.terms) {
+        (terms[term] ??= []).push(docIndex, frequency);
+      }
+    }
+  }
+
+  return {
+    version: 1,
+    avgLength: docs.length > 0 ? totalLength / docs.length : 0,
+    collections: titles,
+    docs,
+    terms,
+  };
+}
+
+/**
+ * Helper: Cut text at a word boundary
+ */
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${cut.slice(0, lastSpace > 0 ? lastSpace : length)}…`;
+}
@@ -0,0 +1,55 @@
+// src/utils/search/entries.ts
+/**
+ * Entry Text Extraction
+ *
+ * Pulls searchable text out of collection entries: title, description,
+ * tags and body.
+ *
+ * Only Markdown bodies arrive rendered: the glob loader gives MDX entries no
+ * `rendered.html` (rendering MDX needs the component runtime, which the
+ * synchronous filters and the index builder can't wait for). MDX bodies are
+ * indexed from their source instead, with stripMarkup() dropping imports,
+ * JSX, expressions and code blocks.
+ */
+
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { AnalyzedDocument, SearchFields } from './types';
+import { analyzeFields, stripMarkup } from './text';
+
+const analyzed = new WeakMap<object, AnalyzedDocument>();
+
+/**
+ * Extract the searchable fields of an entry
+ */
+export function getEntrySearchFields(entry: CollectionEntry<CollectionKey>): SearchFields {
+  const data = entry.data as Record<string, any>;
+  const source = getEntryBody(entry);
+
+  return {
+    title: typeof data.title === 'string' ? data.title : '',
+    description: typeof data.description === 'string' ? data.description : '',
+    tags: Array.isArray(data.tags) ? data.tags.filter((t: unknown) => typeof t === 'string') : [],
+    body: stripMarkup(source),
+  };
+}
+
+/**
+ * Tokenize an entry for scoring (memoized per entry object)
+ */
+export function analyzeEntry(entry: CollectionEntry<CollectionKey>): AnalyzedDocument {
+  let doc = analyzed.get(entry);
+  if (!doc) {
+    doc = analyzeFields(getEntrySearchFields(entry));
+    analyzed.set(entry, doc);
+  }
+  return doc;
+}
+
+/**
+ * Helper: Rendered HTML (Markdown) or raw source (MDX) of an entry's body
+ */
+function getEntryBody(entry: CollectionEntry<CollectionKey>): string {
+  if ('rendered' in entry && entry.rendered?.html) return entry.rendered.html;
+  if ('body' in entry && typeof entry.body === 'string') return entry.body;
+  return '';
+}
@@ -0,0 +1,17 @@
+// src/utils/search/index.ts
+/**
+ * Search Module Barrel Export
+ *
+ * Build-time index generation and BM25 scoring.
+ * Browser code should import from './text' and './bm25' directly to avoid
+ * pulling in astro:content.
+ *
+ * @example
+ * import { buildSearchIndex, searchIndex } from '@/utils/search';
+ */
+
+export * from './types';
+export * from './text';
+export * from './bm25';
+export * from './entries';
+export * from './builder';
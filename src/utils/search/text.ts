@@ -0,0 +1,116 @@
+// src/utils/search/text.ts
+/**
+ * Text Analysis
+ *
+ * Tokenization and markup stripping shared by the index builder, the
+ * whereMatches filter and the client-side search UI. Must stay free of
+ * server-only imports so it can ship to the browser.
+ */
+
+import type { AnalyzedDocument, SearchField, SearchFields } from './types';
+
+/**
+ * Relative weight of each field when counting term frequency
+ * A title hit counts as much as four body hits.
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  tags: 3,
+  description: 2,
+  body: 1,
+};
+
+/**
+ * Common English words that carry no search meaning
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from',
+  'has', 'have', 'how', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or',
+  'our', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'what',
+  'when', 'which', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Normalize text for matching (lowercase, strip diacritics)
+ *
+ * @example
+ * normalizeText('Café Déjà') // 'cafe deja'
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Split text into search terms
+ * Drops stop words and single characters.
+ *
+ * @example
+ * tokenize("Building Astro's Islands") // ['building', 'astro', 'islands']
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .replace(/['’]s\b/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Strip Markdown, MDX and HTML syntax, leaving readable text
+ * Code blocks are dropped entirely; JSX attributes go with their tags.
+ *
+ * @example
+ * stripMarkup('## Hello [world](/w) <Badge />') // 'Hello world'
+ * stripMarkup('<Card title="Intro" onClick={() => go()}>Text</Card>') // 'Text'
+ */
+export function stripMarkup(source: string): string {
+  let text = source
+    .replace(/^---[\s\S]*?---/, ' ')                    // Frontmatter
+    .replace(/^\s*(import|export)\s.*$/gm, ' ')         // MDX imports/exports
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, ' ')            // Fenced code blocks
+    .replace(/<(pre|code|script|style)\b[\s\S]*?<\/\1>/gi, ' ') // Code/script elements
+    .replace(/<!--[\s\S]*?-->/g, ' ');                  // Comments
+
+  // MDX expressions, innermost first (JSX attribute values like {() => x}
+  // would otherwise end a tag early)
+  let previous;
+  do {
+    previous = text;
+    text = text.replace(/\{[^{}]*\}/g, ' ');
+  } while (text !== previous);
+
+  return text
+    .replace(/<\/?[A-Za-z][^>"']*(?:("[^"]*"|'[^']*')[^>"']*)*>/g, ' ') // HTML/JSX tags
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')           // Images → alt text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')            // Links → label
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ')                  // Entities
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '') // Block markers
+    .replace(/[*_~`|]+/g, '')                           // Inline markers
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Tokenize fields into weighted term frequencies
+ */
+export function analyzeFields(fields: SearchFields): AnalyzedDocument {
+  const terms = new Map<string, number>();
+  let length = 0;
+
+  const add = (text: string, field: SearchField) => {
+    const weight = SEARCH_FIELD_WEIGHTS[field];
+    for (const term of tokenize(text)) {
+      terms.set(term, (terms.get(term) ?? 0) + weight);
+      length += weight;
+    }
+  };
+
+  add(fields.title, 'title');
+  add(fields.tags.join(' '), 'tags');
+  add(fields.description, 'description');
+  add(fields.body, 'body');
+
+  return { terms, length };
+}
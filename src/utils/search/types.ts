@@ -0,0 +1,74 @@
+// src/utils/search/types.ts
+/**
+ * Search Types
+ *
+ * Shapes of the generated search index. The index is serialized to JSON at
+ * build time and consumed both at build time (whereMatches) and in the browser.
+ */
+
+/**
+ * Fields indexed for each entry
+ */
+export type SearchField = 'title' | 'description' | 'tags' | 'body';
+
+/**
+ * Raw text for each indexed field
+ */
+export interface SearchFields {
+  title: string;
+  description: string;
+  tags: string[];
+  body: string;
+}
+
+/**
+ * Tokenized document ready for scoring
+ */
+export interface AnalyzedDocument {
+  terms: Map<string, number>;   // Term → weighted frequency
+  length: number;               // Weighted token count
+}
+
+/**
+ * A document stored in the search index
+ */
+export interface SearchDocument {
+  id: string;
+  collection: string;
+  title: string;
+  url: string;
+  description?: string;
+  excerpt: string;              // Leading body text, used for snippets
+  length: number;               // Weighted token count (for BM25)
+}
+
+/**
+ * Compact inverted index
+ *
+ * Postings are flat arrays of [docIndex, frequency, docIndex, frequency, ...]
+ * to keep the JSON small.
+ */
+export interface SearchIndex {
+  version: 1;
+  avgLength: number;
+  collections: Record<string, string>;  // Collection → display title (_meta.mdx)
+  docs: SearchDocument[];
+  terms: Record<string, number[]>;
+}
+
+/**
+ * A ranked search result
+ */
+export interface SearchHit {
+  doc: SearchDocument;
+  score: number;
+  terms: string[];              // Index terms that matched
+}
+
+/**
+ * Options for building the search index
+ */
+export interface SearchIndexOptions {
+  collections?: string[];       // Default: all collections except menus
+  excerptLength?: number;       // Default: 300 characters
+}
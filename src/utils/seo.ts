@@ -12,8 +12,10 @@
  */
 
 import type { CollectionEntry, CollectionKey } from 'astro:content';
-import type { SEOData, MetaData, ImageInput } from '@/content/schema';
-import { find, isCollectionReference } from '@/utils/query'; // ← Use query system
+import type { SEOData, MetaData, ImageInput, TaxonomyConfig } from '@/content/schema';
+import { find, isCollectionReference, getTaxonomyPath, type PaginatedPage, type TaxonomyTerm } from '@/utils/query'; // ← Use query system
+import { getPublishStatus } from '@/utils/publishing';
+import { capitalize } from '@/utils/string';
 
 /**
  * SEO props interface for page metadata
@@ -27,6 +29,9 @@ export interface SEOProps {
   publishDate?: Date | string; // Publication date
   seo?: SEOData;              // Additional SEO overrides
   siteName?: string;          // Site name for OG tags
+  noindex?: boolean;          // Keep out of search engines (unpublished previews)
+  prev?: string;              // Previous page URL (rel="prev", paginated indexes)
+  next?: string;              // Next page URL (rel="next", paginated indexes)
 }
 
 /**
@@ -66,6 +71,7 @@ export async function resolveAuthor(author: any): Promise<string | undefined> {
  * - Item's own SEO settings take precedence
  * - Falls back to collection's SEO settings
  * - Resolves author reference if present
+ * - Marks unpublished items (only built in preview mode) noindex
  * 
  * @param item - Collection entry to build SEO for
  * @param collectionMeta - Optional collection metadata for defaults
@@ -88,6 +94,7 @@ export async function buildItemSEOProps(
     image: itemData.featuredImage || collectionMeta?.featuredImage,
     author: authorName,
     publishDate: itemData.publishDate,
+    noindex: getPublishStatus(itemData) !== 'published',
     seo: {
       // Collection SEO defaults
       ...collectionMeta?.seo,
@@ -102,13 +109,22 @@ export async function buildItemSEOProps(
  * 
  * Uses collection metadata with sensible defaults.
  * 
+ * Paginated indexes (itemsPerPage) get prev/next links. Page 1 keeps the
+ * collection's SEO as is; later pages get "Page n" titles and are their own
+ * canonical URL (a canonicalUrl from _meta.mdx only applies to page 1).
+ * 
  * @param collectionMeta - Collection metadata from _meta.mdx
  * @param collectionName - Collection name for fallback title
+ * @param pagination - Current page of a paginated index
  * @returns SEO props for collection index page
+ * @example
+ * buildCollectionSEOProps(meta, 'blog', pagination)
+ * // page 2: { title: 'Blog - Page 2', prev: '/blog', next: '/blog/page/3', ... }
  */
 export function buildCollectionSEOProps(
   collectionMeta: MetaData,
-  collectionName: string
+  collectionName: string,
+  pagination?: PaginatedPage
 ): SEOProps {
   // Capitalize collection name for fallback title
   const title = collectionMeta.title || 
@@ -117,10 +133,89 @@ export function buildCollectionSEOProps(
   const description = collectionMeta.description || 
     `Browse our ${collectionName} collection`;
   
-  return {
+  const props: SEOProps = {
     title,
     description,
     image: collectionMeta.featuredImage,
     seo: collectionMeta.seo || {}
   };
+  
+  if (!pagination) {
+    return props;
+  }
+  
+  props.prev = pagination.url.prev;
+  props.next = pagination.url.next;
+  
+  if (pagination.page > 1) {
+    const suffix = ` - Page ${pagination.page}`;
+    const { metaTitle, ogTitle, canonicalUrl, ...seo } = collectionMeta.seo || {};
+    
+    props.title = `${title}${suffix}`;
+    props.seo = {
+      ...seo,
+      ...(metaTitle && { metaTitle: `${metaTitle}${suffix}` }),
+      ...(ogTitle && { ogTitle: `${ogTitle}${suffix}` }),
+    };
+  }
+  
+  return props;
+}
+
+/**
+ * Build SEO props for taxonomy pages (term index or one term)
+ * 
+ * Keeps the collection's SEO defaults (image, keywords, robots) but not its
+ * titles, descriptions or canonical URL, which describe the collection index.
+ * 
+ * @param collectionMeta - Collection metadata from _meta.mdx
+ * @param collectionName - Collection name for fallback title
+ * @param taxonomy - Taxonomy from _meta.mdx
+ * @param term - Current term (omit for the term index)
+ * @returns SEO props for the taxonomy page
+ * @example
+ * buildTaxonomySEOProps(meta, 'blog', { field: 'tags', sort: 'name' })
+ * // { title: 'Blog Tags', description: 'Browse Blog by tags', ... }
+ * buildTaxonomySEOProps(meta, 'blog', { field: 'tags', sort: 'name' }, term)
+ * // { title: 'Blog Tags: astro', description: 'Everything in Blog filed under "astro"', ... }
+ */
+export function buildTaxonomySEOProps(
+  collectionMeta: MetaData,
+  collectionName: string,
+  taxonomy: TaxonomyConfig,
+  term?: Pick<TaxonomyTerm, 'label'>
+): SEOProps {
+  const { title: collectionTitle, image, seo: collectionSeo = {} } =
+    buildCollectionSEOProps(collectionMeta, collectionName);
+  
+  const taxonomyTitle = taxonomy.title ||
+    capitalize(getTaxonomyPath(taxonomy).replace(/-/g, ' '));
+  
+  const {
+    metaTitle,
+    metaDescription,
+    ogTitle,
+    ogDescription,
+    twitterTitle,
+    twitterDescription,
+    canonicalUrl,
+    ...seo
+  } = collectionSeo;
+  
+  if (!term) {
+    return {
+      title: `${collectionTitle} ${taxonomyTitle}`,
+      description: taxonomy.description ||
+        `Browse ${collectionTitle} by ${taxonomyTitle.toLowerCase()}`,
+      image,
+      seo,
+    };
+  }
+  
+  return {
+    title: `${collectionTitle} ${taxonomyTitle}: ${term.label}`,
+    description: `Everything in ${collectionTitle} filed under "${term.label}"`,
+    image,
+    seo,
+  };
 }
\ No newline at end of file
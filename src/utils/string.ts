@@ -3,7 +3,7 @@
  * String Manipulation Utilities
  * 
  * Common string operations used throughout the app:
- * - Case transformations (capitalize, kebab-case, PascalCase)
+ * - Case transformations (capitalize, kebab-case, PascalCase, slugs)
  * - Reference normalization (extracting IDs)
  * - Phone number formatting
  * 
@@ -46,6 +46,27 @@ export function toKebabCase(str: string): string {
     .toLowerCase();
 }
 
+/**
+ * Convert a string to a URL-safe slug
+ * 
+ * Lowercases, strips accents and replaces anything that isn't a letter or
+ * digit with single hyphens.
+ * 
+ * @param str - String to convert
+ * @returns URL-safe slug
+ * @example
+ * slugify('Web Development') // 'web-development'
+ * slugify('Café & Bar!')     // 'cafe-bar'
+ */
+export function slugify(str: string): string {
+  return str
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')  // accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
 /**
  * Convert a string to PascalCase
  * 
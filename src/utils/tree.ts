@@ -2,17 +2,77 @@
 /**
  * Tree Building Utilities
  * 
- * Transforms flat arrays with parent references into hierarchical trees.
- * Used by MenuVariant and any other component that needs hierarchy.
+ * Transforms flat arrays with parent references into hierarchical trees, and
+ * sorts, prunes, numbers and expands trees (shapeTree). The one tree API for
+ * menus (buildMenuTree) and content hierarchies (getTree).
  */
 
 import { getItemKey } from './collections';
+import { normalizePath } from './pathValidation';
+
+/**
+ * Fields added to every node by buildTree() and shapeTree()
+ */
+export interface TreeMeta {
+  depth: number;        // 0 = root
+  number: string;       // Outline number, e.g. '1.2.3'
+  isActive: boolean;    // Node URL is the active path
+  isExpanded: boolean;  // Node is active or has an active descendant
+}
+
+/**
+ * Node of a shaped tree
+ */
+export type TreeItem<N> = Omit<N, 'children' | keyof TreeMeta> & TreeMeta & {
+  children: TreeItem<N>[];
+};
+
+/**
+ * Comparator for sibling nodes
+ */
+export type TreeSort<N> = (a: N, b: N) => number;
+
+/**
+ * Options for shapeTree()
+ */
+export interface ShapeTreeOptions<N> {
+  sort?: TreeSort<N> | Array<TreeSort<N> | undefined>;  // One comparator, or one per level (the last repeats)
+  maxDepth?: number;                                    // Drop nodes deeper than this (0 = roots only)
+  filter?: (node: N, depth: number) => boolean;         // Drop nodes (and their subtrees) failing this
+  activePath?: string;                                  // Current path: marks active nodes, expands their ancestors
+  getUrl?: (node: N) => string | undefined;             // Node URL for activePath (default: node.url)
+}
+
+/**
+ * Options for buildTree()
+ */
+export interface BuildTreeOptions<T> extends ShapeTreeOptions<T> {
+  getId?: (item: T) => string;                      // Default: slug, then id
+  parentField?: keyof T;                            // Field that references parent (default: 'parent')
+  sortBy?: keyof T;                                 // Field to sort by when no `sort` is given (default: 'order')
+  sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * Compare nodes by a field, nodes without it last
+ *
+ * @example
+ * buildTree(items, { sort: [byField('order'), byField('title')] }) // roots by order, deeper levels by title
+ */
+export function byField<N>(field: keyof N, direction: 'asc' | 'desc' = 'asc'): TreeSort<N> {
+  return (a, b) => {
+    const aVal = a[field] ?? Infinity;
+    const bVal = b[field] ?? Infinity;
+    const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
+    return direction === 'asc' ? comparison : -comparison;
+  };
+}
 
 /**
  * Build hierarchical tree from flat items with parent references
  * 
  * @param items - Flat array of items with optional parent field
- * @param options - Configuration for tree building
+ * @param options - Parent lookup plus sorting, pruning and active path (see shapeTree)
  * @returns Array of root-level items with nested children
  * 
  * @example
@@ -22,30 +82,28 @@ import { getItemKey } from './collections';
  *   { id: 'web-dev', parent: 'services' }
  * ];
  * const tree = buildTree(flatItems);
- * // Returns: [{ id: 'home', children: [] }, { id: 'services', children: [{ id: 'web-dev', children: [] }] }]
+ * // Returns: [{ id: 'home', number: '1', children: [] }, { id: 'services', number: '2', children: [{ id: 'web-dev', number: '2.1', ... }] }]
  */
 export function buildTree<T extends { parent?: any; order?: number }>(
   items: T[],
-  options: {
-    parentField?: keyof T;  // Field that references parent (default: 'parent')
-    sortBy?: keyof T;       // Field to sort by (default: 'order')
-    sortDirection?: 'asc' | 'desc';
-  } = {}
-): Array<T & { children: Array<T & { children: any[] }> }> {
+  options: BuildTreeOptions<T> = {}
+): TreeItem<T>[] {
   const {
+    getId = (item: T) => getItemKey(item as any),
     parentField = 'parent' as keyof T,
     sortBy = 'order' as keyof T,
-    sortDirection = 'asc'
+    sortDirection = 'asc',
+    sort = byField<T>(sortBy, sortDirection),
   } = options;
-
-  type TreeNode = T & { children: TreeNode[] };
   
-  const itemMap = new Map<string, TreeNode>();
-  const roots: TreeNode[] = [];
+  type Node = T & { children: Node[] };
+  
+  const itemMap = new Map<string, Node>();
+  const roots: Node[] = [];
   
   // First pass: create nodes with children arrays
   items.forEach(item => {
-    const id = getItemKey(item as any);
+    const id = getId(item);
     if (id) {
       itemMap.set(id, { ...item, children: [] });
     }
@@ -53,7 +111,7 @@ export function buildTree<T extends { parent?: any; order?: number }>(
   
   // Second pass: build hierarchy
   items.forEach(item => {
-    const id = getItemKey(item as any);
+    const id = getId(item);
     if (!id) return;
     
     const node = itemMap.get(id)!;
@@ -65,7 +123,7 @@ export function buildTree<T extends { parent?: any; order?: number }>(
                        getItemKey(parent);
       const parentNode = itemMap.get(parentId);
       
-      if (parentNode) {
+      if (parentNode && parentNode !== node) {
         parentNode.children.push(node);
       } else {
         // Parent not found - treat as root
@@ -77,43 +135,98 @@ export function buildTree<T extends { parent?: any; order?: number }>(
     }
   });
   
-  // Sort recursively
-  const sortTree = (nodes: TreeNode[]) => {
-    nodes.sort((a, b) => {
-      const aVal = a[sortBy] ?? Infinity;
-      const bVal = b[sortBy] ?? Infinity;
-      const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
+  return shapeTree<Node>(roots, { ...options, sort } as ShapeTreeOptions<Node>) as unknown as TreeItem<T>[];
+}
+
+/**
+ * Sort, prune, number and expand an existing tree
+ * 
+ * Works on any nodes with a `children` array (menu trees, hierarchy trees).
+ * Returns copies; the input tree is not changed.
+ * 
+ * @param nodes - Root nodes
+ * @param options - Sort per level, depth / predicate pruning and active path
+ * @returns Root nodes with depth, outline number and active state
+ * 
+ * @example
+ * const tree = shapeTree(roots, {
+ *   sort: [byField('order'), byField('title')],
+ *   maxDepth: 2,
+ *   filter: node => !node.hidden,
+ *   activePath: Astro.url.pathname,
+ * });
+ * tree[1].children[0].number; // '2.1'
+ */
+export function shapeTree<N extends { children?: N[] }>(
+  nodes: N[],
+  options: ShapeTreeOptions<N> = {}
+): TreeItem<N>[] {
+  const {
+    sort,
+    maxDepth = Infinity,
+    filter,
+    activePath,
+    getUrl = (node: N) => (node as { url?: string }).url,
+  } = options;
+  const current = activePath ? normalizePath(activePath) : undefined;
+  
+  const getSort = (depth: number): TreeSort<N> | undefined =>
+    Array.isArray(sort) ? sort[Math.min(depth, sort.length - 1)] : sort;
+  
+  const shape = (level: N[], depth: number, prefix: string, visited: Set<N>): TreeItem<N>[] => {
+    if (depth > maxDepth) return [];
     
-    nodes.forEach(node => {
-      if (node.children.length > 0) {
-        sortTree(node.children);
-      }
+    const compare = getSort(depth);
+    const kept = level.filter(node => !visited.has(node) && (!filter || filter(node, depth)));
+    if (compare) kept.sort(compare);
+    
+    return kept.map((node, index) => {
+      const number = prefix ? `${prefix}.${index + 1}` : `${index + 1}`;
+      const url = getUrl(node);
+      const children = shape(node.children ?? [], depth + 1, number, new Set(visited).add(node));
+      const isActive = !!current && !!url && normalizePath(url) === current;
+      
+      return {
+        ...node,
+        children,
+        depth,
+        number,
+        isActive,
+        isExpanded: isActive || children.some(child => child.isExpanded),
+      } as TreeItem<N>;
     });
   };
   
-  sortTree(roots);
-  return roots;
+  return shape(nodes, 0, '', new Set());
 }
 
 /**
  * Flatten a tree back to an array (useful for searching/filtering)
  * 
  * @param tree - Hierarchical tree structure
- * @param includeDepth - Add depth property to each item
+ * @param options - true to add depth, or { marker } to also add a depth marker
  * @returns Flat array of all items
+ * 
+ * @example
+ * flattenTree(tree, { marker: '— ' }).map(item => `${item.marker}${item.title}`);
+ * // ['Services', '— Web Development', '— — Frontend']
  */
 export function flattenTree<T extends { children?: any[] }>(
   tree: T[],
-  includeDepth: boolean = false
-): Array<T & { depth?: number }> {
-  const result: Array<T & { depth?: number }> = [];
+  options: boolean | { marker?: string } = false
+): Array<T & { depth?: number; marker?: string }> {
+  const result: Array<T & { depth?: number; marker?: string }> = [];
+  const includeDepth = options !== false;
+  const marker = typeof options === 'object' ? options.marker : undefined;
   
   const traverse = (nodes: T[], depth: number = 0) => {
     for (const node of nodes) {
       const { children, ...item } = node;
-      result.push(includeDepth ? { ...item as T, depth } : item as T);
+      result.push(includeDepth ? {
+        ...item as T,
+        depth,
+        ...(marker !== undefined && { marker: marker.repeat(depth) }),
+      } : item as T);
       
       if (children && children.length > 0) {
         traverse(children, depth + 1);
@@ -25,6 +25,15 @@ export function manualChunks(id) {
     return 'language';
   }
   
+  // Search dialog + client-side scoring (lazy loaded)
+  // SearchButton stays out so the dialog is only fetched on first open
+  if (
+    (id.includes('/components/Search/') && !id.includes('SearchButton')) ||
+    id.includes('/utils/search/')
+  ) {
+    return 'search';
+  }
+  
   // Modal system
   if (id.includes('/components/Modal')) {
     return 'modal';